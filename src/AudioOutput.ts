@@ -0,0 +1,131 @@
+import {RingBuffer} from "./RingBuffer";
+import workletUrl from "./audioWorklet?worker&url";
+
+/** Messages from `AudioOutput` to its worklet. */
+export type AudioMessage =
+  | {type: "samples"; samples: Float32Array}
+  | {type: "latency"; latency: number};
+
+export type AudioOutputOptions = {
+  /** Seconds of audio to keep queued. */
+  latency?: number;
+  /** 0 to 1. */
+  volume?: number;
+};
+
+/**
+ * Streams emulated audio to the speakers through an `AudioWorklet`.
+ *
+ * Set the PSG's `sampleRate` to this output's, then `push()` its samples once
+ * per emulated frame. The worklet smooths over the difference between the
+ * emulator's and the audio hardware's clocks; see `AudioResampler`.
+ *
+ * Browsers only let audio start after a user gesture, so call `resume()` from
+ * one.
+ */
+export class AudioOutput {
+  static PROCESSOR = "intv-audio";
+
+  context: AudioContext;
+  node: AudioWorkletNode;
+  gain: GainNode;
+
+  #latency: number;
+  #volume: number;
+  #muted: boolean = false;
+
+  static async create({
+    latency = 0.05,
+    volume = 1,
+  }: AudioOutputOptions = {}): Promise<AudioOutput> {
+    const context = new AudioContext({latencyHint: "interactive"});
+    await context.audioWorklet.addModule(workletUrl);
+    const node = new AudioWorkletNode(context, AudioOutput.PROCESSOR, {
+      numberOfInputs: 0,
+      outputChannelCount: [1],
+      processorOptions: {latency},
+    });
+    return new AudioOutput(context, node, latency, volume);
+  }
+
+  constructor(
+    context: AudioContext,
+    node: AudioWorkletNode,
+    latency: number,
+    volume: number,
+  ) {
+    this.context = context;
+    this.node = node;
+    this.gain = context.createGain();
+    this.node.connect(this.gain).connect(context.destination);
+    this.#latency = latency;
+    this.#volume = volume;
+    this.#updateGain();
+  }
+
+  get sampleRate(): number {
+    return this.context.sampleRate;
+  }
+
+  get volume(): number {
+    return this.#volume;
+  }
+
+  set volume(volume: number) {
+    this.#volume = Math.max(0, Math.min(1, volume));
+    this.#updateGain();
+  }
+
+  get muted(): boolean {
+    return this.#muted;
+  }
+
+  set muted(muted: boolean) {
+    this.#muted = muted;
+    this.#updateGain();
+  }
+
+  /** Seconds of audio kept queued; lower is snappier but more fragile. */
+  get latency(): number {
+    return this.#latency;
+  }
+
+  set latency(latency: number) {
+    this.#latency = latency;
+    this.#post({type: "latency", latency});
+  }
+
+  /** Sends everything waiting in `samples` to the worklet. */
+  push(samples: RingBuffer): void {
+    if (samples.length === 0) return;
+    const chunk = new Float32Array(samples.length);
+    samples.read(chunk);
+    this.#post({type: "samples", samples: chunk}, [chunk.buffer]);
+  }
+
+  resume(): Promise<void> {
+    return this.context.resume();
+  }
+
+  suspend(): Promise<void> {
+    return this.context.suspend();
+  }
+
+  close(): Promise<void> {
+    this.node.disconnect();
+    return this.context.close();
+  }
+
+  #post(message: AudioMessage, transfer: Transferable[] = []): void {
+    this.node.port.postMessage(message, transfer);
+  }
+
+  #updateGain(): void {
+    // Ramp rather than jump, to avoid a click:
+    this.gain.gain.setTargetAtTime(
+      this.#muted ? 0 : this.#volume,
+      this.context.currentTime,
+      0.01,
+    );
+  }
+}
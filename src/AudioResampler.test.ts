@@ -0,0 +1,60 @@
+import {describe, expect, test} from "vitest";
+import {AudioResampler} from "./AudioResampler";
+
+const ramp = (length: number, from = 0) =>
+  Float32Array.from({length}, (_, i) => from + i);
+
+describe("AudioResampler", () => {
+  test("plays back 1:1 when at its target", () => {
+    const resampler = new AudioResampler(8);
+    resampler.push(ramp(8));
+    const out = new Float32Array(4);
+    resampler.render(out);
+    expect(resampler.ratio).toBe(1);
+    expect([...out]).toEqual([0, 1, 2, 3]);
+    expect(resampler.buffer.length).toBe(4);
+  });
+
+  test("speeds up when too much is queued, and slows down when too little", () => {
+    const ahead = new AudioResampler(100);
+    ahead.push(ramp(150));
+    ahead.render(new Float32Array(10));
+    expect(ahead.ratio).toBeGreaterThan(1);
+
+    const behind = new AudioResampler(100);
+    behind.push(ramp(50));
+    behind.render(new Float32Array(10));
+    expect(behind.ratio).toBeLessThan(1);
+    expect(behind.ratio).toBeGreaterThanOrEqual(0.995);
+  });
+
+  test("stays near its target while fed slightly too fast", () => {
+    const resampler = new AudioResampler(1000);
+    const out = new Float32Array(400);
+    for (let block = 0; block < 1000; ++block) {
+      // 0.25% more samples than are played:
+      resampler.push(ramp(401));
+      resampler.render(out);
+    }
+    expect(resampler.underruns).toBe(0);
+    expect(resampler.buffer.length).toBeLessThan(2000);
+  });
+
+  test("holds the last level played when it runs dry", () => {
+    const resampler = new AudioResampler(100);
+    resampler.push(ramp(3));
+    const out = new Float32Array(6);
+    resampler.render(out);
+    expect(out[2]).toBeGreaterThan(1);
+    expect([...out.subarray(3)]).toEqual([out[2], out[2], out[2]]);
+    expect(resampler.underruns).toBe(3);
+  });
+
+  test("skips a large backlog", () => {
+    const resampler = new AudioResampler(10);
+    resampler.push(ramp(50));
+    const out = new Float32Array(1);
+    resampler.render(out);
+    expect(out[0]).toBe(40);
+  });
+});
@@ -0,0 +1,64 @@
+import {RingBuffer} from "./RingBuffer";
+
+/** How far from 1:1 playback may be sped up or slowed down (0.5%). */
+const MAX_ADJUST = 0.005;
+
+/**
+ * Plays back samples that arrive in bursts (one emulated frame at a time) at a
+ * steady rate, keeping about `target` samples queued.
+ *
+ * The emulator and the audio hardware run off different clocks, so the queue
+ * slowly drifts one way or the other. Rather than letting it run dry (crackle)
+ * or grow without bound (ever-increasing latency), playback is sped up or
+ * slowed down slightly in proportion to how far the queue is from its target.
+ * A backlog of several times the target (say, after the tab was in the
+ * background) is skipped outright.
+ */
+export class AudioResampler {
+  buffer: RingBuffer;
+  /** Samples to keep queued. */
+  target: number;
+  /** Samples consumed per sample played. */
+  ratio: number = 1;
+  /** Samples played with nothing queued. */
+  underruns: number = 0;
+
+  #position: number = 0;
+  #last: number = 0;
+
+  constructor(target: number, capacity: number = target * 8) {
+    this.target = target;
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  push(samples: Float32Array): void {
+    for (const sample of samples) this.buffer.push(sample);
+  }
+
+  render(out: Float32Array): void {
+    const {buffer} = this;
+    if (buffer.length > this.target * 3) {
+      buffer.skip(buffer.length - this.target);
+    }
+
+    const error = (buffer.length - this.target) / this.target;
+    this.ratio = 1 + MAX_ADJUST * Math.max(-1, Math.min(1, error));
+
+    for (let i = 0; i < out.length; ++i) {
+      if (buffer.length < 2) {
+        // Hold the last level rather than dropping to silence with a click:
+        out[i] = this.#last;
+        this.underruns += 1;
+        continue;
+      }
+      const a = buffer.peek(0);
+      const b = buffer.peek(1);
+      out[i] = this.#last = a + (b - a) * this.#position;
+      this.#position += this.ratio;
+      while (this.#position >= 1 && buffer.length >= 2) {
+        buffer.skip(1);
+        this.#position -= 1;
+      }
+    }
+  }
+}
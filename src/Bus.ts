@@ -1,6 +1,12 @@
+import {StateReader, StateWriter} from "./SaveState";
+
 export interface BusDevice {
+  name?: string;
   clock(): void;
   debug_read(addr: number): null | number;
+  /** See `Stateful`; devices without these can't be saved. */
+  saveState?(writer: StateWriter): void;
+  loadState?(reader: StateReader): void;
 }
 
 export type BusFlags =
@@ -135,6 +141,13 @@ export class Bus {
    * processed as a normal addressing cycle elsewhere.
    */
   static INTAK = 7 as const;
+
+  /**
+   * Value read from the bus when nothing is driving it (or from whichever bits
+   * of it aren't being driven).
+   */
+  static FLOATING = 0xffff as const;
+
   ticks: number = 0;
 
   toString(): string {
@@ -161,12 +174,164 @@ export class Bus {
   //
   flags: BusFlags = Bus.___;
 
+  //
+  // CONTROL LINES
+  //
+
+  /**
+   * INTRM - Maskable INTeRrupt request
+   *
+   * Asserted by external devices (on the Intellivision, the STIC at the start
+   * of VBLANK) to request an interrupt. The CPU samples this line at the end of
+   * every interruptable instruction while its Interrupt Enable flag is set, and
+   * acknowledges the request by entering the INTAK bus phase.
+   *
+   * The CPU never clears this line itself; the requesting device is expected to
+   * release it once it sees INTAK on the bus.
+   */
+  intrm: boolean = false;
+
+  /**
+   * RESET - MSYNC on the CP-1610
+   *
+   * Asserted by the reset button (and at power-on) to put the whole system
+   * back in its initial state. While it's held, the CPU sits idle with its
+   * registers cleared, and every other device returns to its own reset state;
+   * once it's released, the CPU starts over with the INITIALIZATION sequence,
+   * fetching the reset vector during IAB.
+   *
+   * Devices should check this whenever they're clocked.
+   */
+  reset: boolean = false;
+
+  /**
+   * TCI - Terminate Current Interrupt
+   *
+   * Pulsed by the CPU for one micro-cycle when it executes a TCI instruction,
+   * signalling to external interrupt controllers that the interrupt currently
+   * being serviced is done. A controller will typically hold off any further
+   * requests (or lower-priority ones) until it sees this line.
+   *
+   * Note that nothing on the Intellivision Master Component is wired up to
+   * this output.
+   */
+  tci: boolean = false;
+
+  /**
+   * PCIT - Program Counter Inhibit/Software Interrupt
+   *
+   * Asserted by the CPU while it executes a SIN instruction. Nothing on the
+   * Intellivision Master Component listens to this, but it's handy for
+   * debuggers and test harnesses to trap on.
+   */
+  pcit: boolean = false;
+
+  /**
+   * BUSRQ - BUS ReQuest
+   *
+   * Asserted by a device that wants to take control of the bus, e.g. the STIC
+   * when it fetches BACKTAB and GRAM/GROM data. Use `requestBus()` rather than
+   * setting this directly.
+   */
+  busrq: boolean = false;
+
+  /**
+   * BUSAK - BUS AcKnowledge
+   *
+   * Asserted by the CPU once it has finished its current bus transaction in
+   * response to BUSRQ. While this is set, the CPU stops driving the bus and the
+   * requesting device is free to drive `flags` and `data` itself.
+   */
+  busak: boolean = false;
+
+  /**
+   * The device which requested the bus with `requestBus()`.
+   */
+  master: BusDevice | null = null;
+
+  /**
+   * Remaining micro-cycles before the bus is handed back to the CPU.
+   */
+  _masterCycles: number = 0;
+
+  /**
+   * Requests the bus on behalf of `device` for a window of `cycles`
+   * micro-cycles, starting once the CPU acknowledges the request. When the
+   * window has elapsed BUSRQ is released and the CPU resumes.
+   */
+  requestBus(device: BusDevice, cycles: number): void {
+    if (this.busrq) {
+      throw new Error("The bus has already been requested by another device");
+    }
+    this.busrq = true;
+    this.master = device;
+    this._masterCycles = cycles;
+  }
+
+  /**
+   * Whether `device` currently owns the bus.
+   */
+  isMaster(device: BusDevice): boolean {
+    return this.busak && this.master === device;
+  }
+
+  /**
+   * Saves everything but `master`, which is up to whoever knows the devices on
+   * the bus.
+   */
+  saveState(writer: StateWriter): void {
+    writer.u8(this.ticks);
+    writer.u16(this._data);
+    writer.u8(this.flags);
+    writer.bool(this.intrm);
+    writer.bool(this.reset);
+    writer.bool(this.tci);
+    writer.bool(this.pcit);
+    writer.bool(this.busrq);
+    writer.bool(this.busak);
+    writer.u32(this._masterCycles);
+  }
+
+  loadState(reader: StateReader): void {
+    this.ticks = reader.u8();
+    this._data = reader.u16();
+    this.flags = (reader.u8() & 0b111) as BusFlags;
+    this.intrm = reader.bool();
+    this.reset = reader.bool();
+    this.tci = reader.bool();
+    this.pcit = reader.bool();
+    this.busrq = reader.bool();
+    this.busak = reader.bool();
+    this._masterCycles = reader.u32();
+  }
+
   clock() {
     this.ticks = (this.ticks + 1) % 4;
+
+    if (this.reset) {
+      // Nobody gets to hold on to the bus through a reset:
+      this.busrq = false;
+      this.busak = false;
+      this.master = null;
+      this._masterCycles = 0;
+      this.tci = false;
+      this.pcit = false;
+    }
+
+    // Count down the bus master's window at the start of every micro-cycle:
+    if (this.ticks === 0 && this.busak && this.master) {
+      if (this._masterCycles === 0) {
+        this.busrq = false;
+        this.master = null;
+      } else {
+        this._masterCycles -= 1;
+      }
+    }
+
     // Bus reads 0xFFFF when there's nothing asserting data; this is mainly to
     // match jzIntv behavior:
     if (this.ticks === 3 && this.flags === Bus.___) {
-      this._data = 65535;
+      this._data = Bus.FLOATING;
     }
   }
 }
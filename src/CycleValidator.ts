@@ -0,0 +1,107 @@
+import {Bus, BusDevice} from "./Bus";
+import {StateReader, StateWriter} from "./SaveState";
+import {CP1610, DECLE_MASK} from "./cp1610";
+import {decodeOpcode} from "./decodeOpcode";
+
+export type CycleMismatch = Readonly<{
+  /** Address the instruction was fetched from. */
+  address: number;
+  opcode: number;
+  mnemonic: string | null;
+  /** Cycles measured from this instruction's fetch to the next one's. */
+  cycles: number;
+  /** Cycle counts listed for this instruction in `InstructionConfig`. */
+  expected: ReadonlyArray<number>;
+}>;
+
+/**
+ * Self-check for instruction timing.
+ *
+ * Counts the ticks between consecutive `onInstructionFetch` callbacks and
+ * reports any instruction whose measured cycle count isn't one of those listed
+ * in its `InstructionConfig.cycles`.
+ *
+ * This is a bus device so that it can count ticks; clock it along with the
+ * rest of the devices on the bus. Cycles spent while another device is bus
+ * master aren't counted, and instructions followed by interrupt processing
+ * aren't checked at all.
+ *
+ * Note that this hooks `cpu.onInstructionFetch` when constructed, calling
+ * through to whatever callback was there before.
+ */
+export class CycleValidator implements BusDevice {
+  name: string = "Cycle Validator";
+  bus: Bus;
+  cpu: CP1610;
+  mismatches: CycleMismatch[] = [];
+  onMismatch: ((mismatch: CycleMismatch) => void) | null = null;
+
+  /** Number of instructions checked so far. */
+  validated: number = 0;
+
+  #ticks: number = 0;
+  #address: number | null = null;
+  #interrupted: boolean = false;
+
+  constructor(bus: Bus, cpu: CP1610) {
+    this.bus = bus;
+    this.cpu = cpu;
+
+    const onInstructionFetch = cpu.onInstructionFetch;
+    cpu.onInstructionFetch = () => {
+      this.#onInstructionFetch();
+      if (onInstructionFetch) onInstructionFetch();
+    };
+  }
+
+  /** `mismatches` is just a log, so it isn't saved. */
+  saveState(writer: StateWriter): void {
+    writer.u32(this.validated);
+    writer.f64(this.#ticks);
+    writer.nullable(this.#address);
+    writer.bool(this.#interrupted);
+  }
+
+  loadState(reader: StateReader): void {
+    this.validated = reader.u32();
+    this.#ticks = reader.f64();
+    this.#address = reader.nullable();
+    this.#interrupted = reader.bool();
+  }
+
+  clock(): void {
+    if (this.bus.flags === Bus.INTAK) this.#interrupted = true;
+    if (!this.bus.busak) this.#ticks += 1;
+  }
+
+  #onInstructionFetch() {
+    // Depending on whether we're clocked before or after the CPU we may be off
+    // by a tick, hence rounding:
+    const cycles = Math.round(this.#ticks / 4);
+
+    if (this.#address != null && !this.#interrupted) {
+      const instruction = decodeOpcode(this.cpu.opcode & DECLE_MASK);
+      const expected = instruction?.cycles ?? [];
+      this.validated += 1;
+      if (!expected.includes(cycles)) {
+        const mismatch: CycleMismatch = {
+          address: this.#address,
+          opcode: this.cpu.opcode,
+          mnemonic: instruction?.mnemonic ?? null,
+          cycles,
+          expected,
+        };
+        this.mismatches.push(mismatch);
+        if (this.onMismatch) this.onMismatch(mismatch);
+      }
+    }
+
+    this.#ticks = 0;
+    this.#interrupted = false;
+    this.#address = this.cpu.r[7];
+  }
+
+  debug_read(_addr: number): number | null {
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {GRAM} from "./GRAM";
+import {GROM} from "./GROM";
+import {MemoryMap} from "./MemoryMap";
+import {STIC} from "./STIC";
+
+describe("GRAM", () => {
+  test("only takes writes during VBLANK", () => {
+    const bus = new Bus();
+    const memory = new MemoryMap(bus);
+    const stic = new STIC(bus, memory);
+    const gram = new GRAM(bus, stic);
+    memory.add(gram, GRAM.START, GRAM.END);
+
+    gram.write(0, 0x1234);
+    expect(memory.debug_read(GRAM.START)).toBe(0xff34);
+
+    stic.cycle = STIC.VBLANK_CYCLES;
+    gram.write(0, 0x0056);
+    expect(memory.debug_read(GRAM.START)).toBe(0xff34);
+  });
+
+  test("only reads back during VBLANK", () => {
+    const bus = new Bus();
+    const memory = new MemoryMap(bus);
+    const stic = new STIC(bus, memory);
+    const gram = new GRAM(bus, stic);
+    memory.add(gram, GRAM.START, GRAM.END);
+    gram.write(0, 0x0012);
+    expect(gram.busRead(0)).toBe(0xff12);
+
+    stic.cycle = STIC.VBLANK_CYCLES;
+    expect(gram.busRead(0)).toBe(Bus.FLOATING);
+    // The STIC still sees the card:
+    expect(memory.debug_read(GRAM.START)).toBe(0xff12);
+  });
+});
+
+describe("GROM", () => {
+  test("loads a byte per word", () => {
+    const image = new Uint8Array(GROM.SIZE);
+    image[8] = 0x18;
+    const grom = new GROM(new Bus(), image);
+    expect(grom.debug_read(0x3008)).toBe(0xff18);
+    expect(() => new GROM(new Bus(), new Uint8Array(16))).toThrowError(
+      "Expected a 2048 byte GROM image, got 16 bytes",
+    );
+  });
+});
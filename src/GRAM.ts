@@ -0,0 +1,33 @@
+import {Bus} from "./Bus";
+import {RAM} from "./RAM";
+import {STIC} from "./STIC";
+
+/**
+ * Graphics RAM: 64 user-defined cards, 8 bits wide, at $3800-$39FF.
+ *
+ * The STIC owns GRAM's bus outside of VBLANK, so writes the CPU makes then
+ * never arrive and are dropped, and its reads see the bus floating. The STIC
+ * itself reads cards with `read`, which always works.
+ */
+export class GRAM extends RAM {
+  static START = STIC.GRAM;
+  static END = STIC.GRAM + 0x200;
+
+  name: string = "GRAM";
+  stic: STIC;
+
+  constructor(bus: Bus, stic: STIC) {
+    super(bus, GRAM.START, GRAM.END, 8);
+    this.stic = stic;
+  }
+
+  busRead(offset: number): number | null {
+    if (!this.stic.vblank) return Bus.FLOATING;
+    return this.read(offset);
+  }
+
+  write(offset: number, data: number): void {
+    if (!this.stic.vblank) return;
+    super.write(offset, data);
+  }
+}
@@ -0,0 +1,25 @@
+import {Bus} from "./Bus";
+import {ROM} from "./ROM";
+import {STIC} from "./STIC";
+
+/**
+ * Graphics ROM: the 256 built-in cards (mostly font), 8 bits wide, at
+ * $3000-$37FF.
+ *
+ * Built from `grom.bin` (see `roms/README.md`), which has one byte per word.
+ */
+export class GROM extends ROM {
+  static START = STIC.GROM;
+  static SIZE = 0x800;
+
+  name: string = "GROM";
+
+  constructor(bus: Bus, image: Uint8Array) {
+    if (image.length !== GROM.SIZE) {
+      throw new Error(
+        `Expected a ${GROM.SIZE} byte GROM image, got ${image.length} bytes`,
+      );
+    }
+    super(bus, GROM.START, Uint16Array.from(image), 8);
+  }
+}
@@ -0,0 +1,71 @@
+import {describe, expect, test} from "vitest";
+import {Bus} from "./Bus";
+import {DISC, HandController, KEYPAD, SIDE_BUTTONS} from "./HandController";
+import {PSG} from "./PSG";
+
+const createControllers = () => {
+  const psg = new PSG(new Bus());
+  const right = new HandController(psg, HandController.RIGHT);
+  const left = new HandController(psg, HandController.LEFT);
+  /** What the CPU would see at $1FE/$1FF, inverted so pressed bits are 1. */
+  const lines = (addr: 0x1fe | 0x1ff) => ~psg.read(addr - PSG.START)! & 0xff;
+  return {psg, right, left, lines};
+};
+
+describe("HandController", () => {
+  test("reads all lines high with nothing pressed", () => {
+    const {psg} = createControllers();
+    expect(psg.read(0xe)! & 0xff).toBe(0xff);
+    expect(psg.read(0xf)! & 0xff).toBe(0xff);
+  });
+
+  test("feeds the right controller to $1FE and the left to $1FF", () => {
+    const {right, left, lines} = createControllers();
+    right.press("5");
+    left.press("top");
+    expect(lines(0x1fe)).toBe(KEYPAD["5"]);
+    expect(lines(0x1ff)).toBe(SIDE_BUTTONS.top);
+
+    right.release("5");
+    expect(lines(0x1fe)).toBe(0);
+  });
+
+  test("overlapping inputs combine their lines", () => {
+    const {right, lines} = createControllers();
+    right.press("left");
+    right.press("right");
+    // Any two side buttons read the same as all three:
+    expect(lines(0x1fe)).toBe(
+      SIDE_BUTTONS.top | SIDE_BUTTONS.left | SIDE_BUTTONS.right,
+    );
+
+    right.releaseAll();
+    right.press("1");
+    right.press("5");
+    // Rows and columns of 1 and 5 also cover 2 and 4:
+    expect(lines(0x1fe)).toBe(KEYPAD["2"] | KEYPAD["4"]);
+  });
+
+  test("the disc reports 16 distinct directions", () => {
+    const {left, lines} = createControllers();
+    const seen = new Set<number>();
+    for (let direction = 0; direction < 16; ++direction) {
+      left.setDisc(direction);
+      expect(lines(0x1ff)).toBe(DISC[direction]);
+      seen.add(lines(0x1ff));
+    }
+    expect(seen.size).toBe(16);
+
+    left.setDisc(null);
+    expect(lines(0x1ff)).toBe(0);
+    expect(() => left.setDisc(16)).toThrowError("Invalid disc direction: 16");
+  });
+
+  test("ports set as outputs ignore the controllers", () => {
+    const {psg, right} = createControllers();
+    psg.write(0x8, 0x40);
+    psg.write(0xe, 0x00);
+    right.press("enter");
+    expect(psg.read(0xe)! & 0xff).toBe(0x00);
+  });
+});
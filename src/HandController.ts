@@ -0,0 +1,112 @@
+import {PSG} from "./PSG";
+
+/**
+ * Bits each keypad key pulls low. Keys are a row (bits 0-3) and column (bits
+ * 5-7) pair, so pressing two at once can read as a third.
+ */
+// prettier-ignore
+export const KEYPAD = {
+  "1": 0x81, "2": 0x41, "3": 0x21,
+  "4": 0x82, "5": 0x42, "6": 0x22,
+  "7": 0x84, "8": 0x44, "9": 0x24,
+  clear: 0x88, "0": 0x48, enter: 0x28,
+} as const;
+
+/**
+ * Bits each side button pulls low. These overlap both each other and the
+ * keypad's columns.
+ */
+export const SIDE_BUTTONS = {
+  top: 0xa0,
+  left: 0x60,
+  right: 0xc0,
+} as const;
+
+/**
+ * Bits the disc pulls low for each of its 16 directions, clockwise from north.
+ * Neighboring directions share bits, so diagonal presses read as in between.
+ */
+// prettier-ignore
+export const DISC = [
+  /* N */ 0x04, 0x14, /* NE */ 0x16, 0x06,
+  /* E */ 0x02, 0x12, /* SE */ 0x13, 0x03,
+  /* S */ 0x01, 0x11, /* SW */ 0x19, 0x09,
+  /* W */ 0x08, 0x18, /* NW */ 0x1c, 0x0c,
+] as const;
+
+export type Key = keyof typeof KEYPAD;
+export type SideButton = keyof typeof SIDE_BUTTONS;
+/** 0-15, clockwise from north. */
+export type DiscDirection = number;
+
+/**
+ * One hand controller, wired to one of the PSG's I/O ports: the right
+ * controller to $1FE, the left to $1FF.
+ *
+ * Every input just pulls some of the port's (normally high) lines low, so
+ * holding several at once reads as the AND of their patterns, just as on the
+ * real hardware. Nothing here knows about keyboards or gamepads; tests can
+ * press things directly.
+ */
+export class HandController {
+  static RIGHT = 0 as const;
+  static LEFT = 1 as const;
+
+  psg: PSG;
+  port: 0 | 1;
+  keys: Set<Key> = new Set();
+  buttons: Set<SideButton> = new Set();
+  disc: DiscDirection | null = null;
+
+  constructor(psg: PSG, port: 0 | 1) {
+    this.psg = psg;
+    this.port = port;
+    this.#update();
+  }
+
+  /** Lines currently pulled low, as a bit mask. */
+  get bits(): number {
+    let bits = this.disc == null ? 0 : DISC[this.disc]!;
+    for (const key of this.keys) bits |= KEYPAD[key];
+    for (const button of this.buttons) bits |= SIDE_BUTTONS[button];
+    return bits;
+  }
+
+  press(input: Key | SideButton): void {
+    if (input in SIDE_BUTTONS) {
+      this.buttons.add(input as SideButton);
+    } else {
+      this.keys.add(input as Key);
+    }
+    this.#update();
+  }
+
+  release(input: Key | SideButton): void {
+    if (input in SIDE_BUTTONS) {
+      this.buttons.delete(input as SideButton);
+    } else {
+      this.keys.delete(input as Key);
+    }
+    this.#update();
+  }
+
+  /** Presses the disc in `direction`, or lets go of it with `null`. */
+  setDisc(direction: DiscDirection | null): void {
+    if (direction != null && !(direction >= 0 && direction < DISC.length)) {
+      throw new Error(`Invalid disc direction: ${direction}`);
+    }
+    this.disc = direction == null ? null : Math.floor(direction);
+    this.#update();
+  }
+
+  releaseAll(): void {
+    this.keys.clear();
+    this.buttons.clear();
+    this.disc = null;
+    this.#update();
+  }
+
+  #update(): void {
+    this.psg.inputs[this.port] = ~this.bits & 0xff;
+  }
+}
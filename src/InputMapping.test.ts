@@ -0,0 +1,204 @@
+import {describe, expect, test} from "vitest";
+import {Bus} from "./Bus";
+import {DISC, HandController, KEYPAD, SIDE_BUTTONS} from "./HandController";
+import {
+  DEFAULT_MAPPING,
+  InputMapper,
+  InputMapping,
+  bindGamepadButton,
+  bindKey,
+  discDirection,
+  loadMapping,
+  saveMapping,
+} from "./InputMapping";
+import {PSG} from "./PSG";
+
+const createMapper = (mapping?: InputMapping) => {
+  const psg = new PSG(new Bus());
+  const left = new HandController(psg, HandController.LEFT);
+  const right = new HandController(psg, HandController.RIGHT);
+  const mapper = new InputMapper({left, right}, mapping);
+  return {left, right, mapper};
+};
+
+const fakeGamepad = (
+  pressed: number[] = [],
+  axes: number[] = [0, 0, 0, 0],
+): Gamepad =>
+  ({
+    axes,
+    buttons: Array.from({length: 16}, (_, i) => ({
+      pressed: pressed.includes(i),
+    })),
+  }) as unknown as Gamepad;
+
+const fakeStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe("discDirection", () => {
+  test("maps vectors onto the 16 directions, clockwise from north", () => {
+    expect(discDirection(0, 0)).toBe(null);
+    expect(discDirection(0, 1)).toBe(0);
+    expect(discDirection(1, 1)).toBe(2);
+    expect(discDirection(1, 0)).toBe(4);
+    expect(discDirection(0, -1)).toBe(8);
+    expect(discDirection(-1, 0)).toBe(12);
+    expect(discDirection(-0.4, 1)).toBe(15);
+  });
+});
+
+describe("InputMapper", () => {
+  test("presses keypad keys and side buttons from the keyboard", () => {
+    const {left, right, mapper} = createMapper();
+    expect(mapper.keyDown("Digit5")).toBe(true);
+    expect(mapper.keyDown("KeyZ")).toBe(true);
+    expect(left.bits).toBe(KEYPAD["5"]);
+    expect(right.bits).toBe(SIDE_BUTTONS.left);
+
+    mapper.keyUp("Digit5");
+    expect(left.bits).toBe(0);
+    expect(mapper.keyDown("F13")).toBe(false);
+  });
+
+  test("combines held directions into diagonals", () => {
+    const {left, mapper} = createMapper();
+    mapper.keyDown("ArrowUp");
+    expect(left.disc).toBe(0);
+    mapper.keyDown("ArrowLeft");
+    expect(left.disc).toBe(14);
+    mapper.keyUp("ArrowUp");
+    expect(left.disc).toBe(12);
+    mapper.keyDown("ArrowRight");
+    expect(left.disc).toBe(null);
+  });
+
+  test("releases every key at once", () => {
+    const {left, mapper} = createMapper();
+    mapper.keyDown("ArrowDown");
+    mapper.keyDown("Equal");
+    mapper.releaseKeys();
+    expect(left.bits).toBe(0);
+  });
+
+  test("polls gamepad buttons and sticks", () => {
+    const {left, right, mapper} = createMapper();
+    mapper.pollGamepads([fakeGamepad([9], [0.7, 0.7]), fakeGamepad([2])]);
+    // Down and to the right:
+    expect(left.disc).toBe(6);
+    expect(left.bits).toBe(DISC[6] | KEYPAD.enter);
+    expect(right.bits).toBe(SIDE_BUTTONS.top);
+
+    mapper.pollGamepads([fakeGamepad([], [0.1, -0.2]), null]);
+    expect(left.bits).toBe(0);
+    expect(right.bits).toBe(0);
+  });
+
+  test("keyboard and gamepad input combine", () => {
+    const {left, mapper} = createMapper();
+    mapper.keyDown("Digit1");
+    mapper.pollGamepads([fakeGamepad([8])]);
+    expect(left.bits).toBe(KEYPAD["1"] | KEYPAD.clear);
+    mapper.pollGamepads([fakeGamepad()]);
+    expect(left.bits).toBe(KEYPAD["1"]);
+  });
+});
+
+describe("loadMapping", () => {
+  test("round-trips through storage", () => {
+    const storage = fakeStorage();
+    const mapping: InputMapping = {
+      keyboard: {KeyQ: {controller: "right", input: "enter"}},
+      gamepads: [],
+    };
+    saveMapping(mapping, storage);
+    expect(loadMapping(storage)).toEqual(mapping);
+  });
+
+  test("falls back to the default for missing or invalid mappings", () => {
+    const storage = fakeStorage();
+    expect(loadMapping(storage)).toBe(DEFAULT_MAPPING);
+    storage.items.set("intv-web:input-mapping", "{");
+    expect(loadMapping(storage)).toBe(DEFAULT_MAPPING);
+    storage.items.set(
+      "intv-web:input-mapping",
+      JSON.stringify({
+        keyboard: {KeyQ: {controller: "middle", input: "enter"}},
+        gamepads: [],
+      }),
+    );
+    expect(loadMapping(storage)).toBe(DEFAULT_MAPPING);
+  });
+
+  test("falls back to the default for each invalid gamepad setting", () => {
+    const storage = fakeStorage();
+    storage.items.set(
+      "intv-web:input-mapping",
+      JSON.stringify({
+        keyboard: {},
+        gamepads: [
+          {controller: "right", stick: 1, deadzone: "far", buttons: {0: "1"}},
+          {controller: "left", stick: 7, deadzone: 0.25},
+        ],
+      }),
+    );
+    expect(loadMapping(storage).gamepads).toEqual([
+      {controller: "right", stick: 1, deadzone: 0.4, buttons: {0: "1"}},
+      {
+        controller: "left",
+        stick: 0,
+        deadzone: 0.25,
+        buttons: DEFAULT_MAPPING.gamepads[1]!.buttons,
+      },
+    ]);
+  });
+});
+
+describe("bindKey", () => {
+  const mapping: InputMapping = {
+    keyboard: {
+      KeyA: {controller: "left", input: "1"},
+      KeyB: {controller: "left", input: "2"},
+    },
+    gamepads: [],
+  };
+
+  test("moves an input to a new key", () => {
+    expect(bindKey(mapping, {controller: "left", input: "1"}, "KeyC")).toEqual({
+      keyboard: {
+        KeyB: {controller: "left", input: "2"},
+        KeyC: {controller: "left", input: "1"},
+      },
+      gamepads: [],
+    });
+  });
+
+  test("takes a key away from whatever had it", () => {
+    expect(
+      bindKey(mapping, {controller: "right", input: "1"}, "KeyB").keyboard,
+    ).toEqual({
+      KeyA: {controller: "left", input: "1"},
+      KeyB: {controller: "right", input: "1"},
+    });
+  });
+
+  test("unbinds", () => {
+    expect(
+      bindKey(mapping, {controller: "left", input: "2"}, null).keyboard,
+    ).toEqual({KeyA: {controller: "left", input: "1"}});
+  });
+});
+
+describe("bindGamepadButton", () => {
+  test("only changes the given gamepad", () => {
+    const mapping = bindGamepadButton(DEFAULT_MAPPING, 1, "enter", 0);
+    expect(mapping.gamepads[0]).toBe(DEFAULT_MAPPING.gamepads[0]);
+    expect(mapping.gamepads[1]!.buttons[0]).toBe("enter");
+    expect(mapping.gamepads[1]!.buttons[9]).toBe(undefined);
+  });
+});
@@ -0,0 +1,397 @@
+import {
+  DISC,
+  DiscDirection,
+  HandController,
+  KEYPAD,
+  Key,
+  SIDE_BUTTONS,
+  SideButton,
+} from "./HandController";
+
+export type ControllerSide = "left" | "right";
+/** Pressing the disc at its edge. Pressing two neighbors gives a diagonal. */
+export type DiscInput = "north" | "east" | "south" | "west";
+export type ControllerInput = Key | SideButton | DiscInput;
+
+export type Binding = Readonly<{
+  controller: ControllerSide;
+  input: ControllerInput;
+}>;
+
+export type GamepadMapping = Readonly<{
+  controller: ControllerSide;
+  /** Which analog stick drives the disc: 0 for axes 0-1, 1 for axes 2-3. */
+  stick: number;
+  /** How far (0-1) the stick has to move before the disc is pressed. */
+  deadzone: number;
+  /** Gamepad button index to what it presses. */
+  buttons: Readonly<Record<number, ControllerInput>>;
+}>;
+
+export type InputMapping = Readonly<{
+  /** `KeyboardEvent.code` to what it presses. */
+  keyboard: Readonly<Record<string, Binding>>;
+  /** By gamepad index; extra gamepads are ignored. */
+  gamepads: ReadonlyArray<GamepadMapping>;
+}>;
+
+export const DISC_INPUTS: ReadonlyArray<DiscInput> = [
+  "north",
+  "east",
+  "south",
+  "west",
+];
+
+/** Every input, in the order the settings panel lists them. */
+export const CONTROLLER_INPUTS: ReadonlyArray<ControllerInput> = [
+  ...DISC_INPUTS,
+  ...(Object.keys(KEYPAD) as Key[]),
+  ...(Object.keys(SIDE_BUTTONS) as SideButton[]),
+];
+
+const keypadBindings = (
+  controller: ControllerSide,
+  codes: Readonly<Record<Key, string>>,
+) =>
+  Object.fromEntries(
+    Object.entries(codes).map(([input, code]) => [
+      code,
+      {controller, input: input as Key},
+    ]),
+  );
+
+/**
+ * The left controller on the arrow keys and number row, and the right on WASD
+ * and the numeric keypad. Standard-layout gamepads 1 and 2 drive the left and
+ * right controllers respectively.
+ */
+export const DEFAULT_MAPPING: InputMapping = {
+  keyboard: {
+    ArrowUp: {controller: "left", input: "north"},
+    ArrowRight: {controller: "left", input: "east"},
+    ArrowDown: {controller: "left", input: "south"},
+    ArrowLeft: {controller: "left", input: "west"},
+    ShiftRight: {controller: "left", input: "top"},
+    Slash: {controller: "left", input: "left"},
+    Period: {controller: "left", input: "right"},
+    ...keypadBindings("left", {
+      "1": "Digit1",
+      "2": "Digit2",
+      "3": "Digit3",
+      "4": "Digit4",
+      "5": "Digit5",
+      "6": "Digit6",
+      "7": "Digit7",
+      "8": "Digit8",
+      "9": "Digit9",
+      clear: "Minus",
+      "0": "Digit0",
+      enter: "Equal",
+    }),
+
+    KeyW: {controller: "right", input: "north"},
+    KeyD: {controller: "right", input: "east"},
+    KeyS: {controller: "right", input: "south"},
+    KeyA: {controller: "right", input: "west"},
+    ShiftLeft: {controller: "right", input: "top"},
+    KeyZ: {controller: "right", input: "left"},
+    KeyX: {controller: "right", input: "right"},
+    ...keypadBindings("right", {
+      "1": "Numpad7",
+      "2": "Numpad8",
+      "3": "Numpad9",
+      "4": "Numpad4",
+      "5": "Numpad5",
+      "6": "Numpad6",
+      "7": "Numpad1",
+      "8": "Numpad2",
+      "9": "Numpad3",
+      clear: "NumpadDecimal",
+      "0": "Numpad0",
+      enter: "NumpadEnter",
+    }),
+  },
+  gamepads: (["left", "right"] as const).map((controller) => ({
+    controller,
+    stick: 0,
+    deadzone: 0.4,
+    buttons: {
+      0: "left",
+      1: "right",
+      2: "top",
+      3: "top",
+      4: "1",
+      5: "3",
+      6: "7",
+      7: "9",
+      8: "clear",
+      9: "enter",
+      12: "north",
+      13: "south",
+      14: "west",
+      15: "east",
+    },
+  })),
+};
+
+const STORAGE_KEY = "intv-web:input-mapping";
+
+const isControllerInput = (input: unknown): input is ControllerInput =>
+  CONTROLLER_INPUTS.includes(input as ControllerInput);
+
+const isBinding = (binding: unknown): binding is Binding => {
+  const {controller, input} = (binding ?? {}) as Record<string, unknown>;
+  return (
+    (controller === "left" || controller === "right") &&
+    isControllerInput(input)
+  );
+};
+
+/**
+ * Fills in whichever of a saved gamepad's settings are missing or out of
+ * range (say, saved by an older version) from the default for its `index`.
+ */
+const withGamepadDefaults = (
+  gamepad: Partial<GamepadMapping> & Pick<GamepadMapping, "controller">,
+  index: number,
+): GamepadMapping => {
+  const defaults =
+    DEFAULT_MAPPING.gamepads[index] ?? DEFAULT_MAPPING.gamepads[0]!;
+  const {stick, deadzone} = gamepad;
+  return {
+    controller: gamepad.controller,
+    stick: stick === 0 || stick === 1 ? stick : defaults.stick,
+    deadzone:
+      typeof deadzone === "number" && deadzone >= 0 && deadzone < 1
+        ? deadzone
+        : defaults.deadzone,
+    buttons: gamepad.buttons ?? defaults.buttons,
+  };
+};
+
+/**
+ * Reads the mapping saved with `saveMapping`, falling back to the default if
+ * there isn't one (or it's unreadable). Gamepad settings that don't make sense
+ * fall back to their defaults individually.
+ */
+export const loadMapping = (
+  storage: Pick<Storage, "getItem"> = localStorage,
+): InputMapping => {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) ?? "null");
+    if (
+      saved &&
+      Object.values(saved.keyboard ?? {}).every(isBinding) &&
+      Array.isArray(saved.gamepads) &&
+      saved.gamepads.every(
+        (gamepad: GamepadMapping) =>
+          (gamepad.controller === "left" || gamepad.controller === "right") &&
+          Object.values(gamepad.buttons ?? {}).every(isControllerInput),
+      )
+    ) {
+      return {
+        keyboard: saved.keyboard ?? DEFAULT_MAPPING.keyboard,
+        gamepads: saved.gamepads.map(withGamepadDefaults),
+      };
+    }
+  } catch {
+    // Fall through to the default.
+  }
+  return DEFAULT_MAPPING;
+};
+
+export const saveMapping = (
+  mapping: InputMapping,
+  storage: Pick<Storage, "setItem"> = localStorage,
+): void => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+};
+
+const sameBinding = (a: Binding, b: Binding) =>
+  a.controller === b.controller && a.input === b.input;
+
+/**
+ * Binds `code` to `binding`, replacing whatever else either was bound to: each
+ * key presses one input, and each input has one key.
+ *
+ * With a null `code`, just unbinds `binding`.
+ */
+export const bindKey = (
+  mapping: InputMapping,
+  binding: Binding,
+  code: string | null,
+): InputMapping => {
+  const keyboard = Object.fromEntries(
+    Object.entries(mapping.keyboard).filter(
+      ([other, bound]) => other !== code && !sameBinding(bound, binding),
+    ),
+  );
+  if (code != null) keyboard[code] = binding;
+  return {...mapping, keyboard};
+};
+
+/**
+ * Binds button `button` of gamepad `gamepad` to `input`, replacing whatever
+ * else either was bound to on that gamepad.
+ *
+ * With a null `button`, just unbinds `input`.
+ */
+export const bindGamepadButton = (
+  mapping: InputMapping,
+  gamepad: number,
+  input: ControllerInput,
+  button: number | null,
+): InputMapping => ({
+  ...mapping,
+  gamepads: mapping.gamepads.map((gamepadMapping, index) => {
+    if (index !== gamepad) return gamepadMapping;
+    const buttons = Object.fromEntries(
+      Object.entries(gamepadMapping.buttons).filter(
+        ([other, bound]) => Number(other) !== button && bound !== input,
+      ),
+    );
+    if (button != null) buttons[button] = input;
+    return {...gamepadMapping, buttons};
+  }),
+});
+
+/**
+ * Which of the disc's 16 directions points at (`x`, `y`), with north being
+ * positive `y`. Returns null for the center.
+ */
+export const discDirection = (x: number, y: number): DiscDirection | null => {
+  if (x === 0 && y === 0) return null;
+  const turns = Math.atan2(x, y) / (2 * Math.PI);
+  return (Math.round(turns * DISC.length) + DISC.length) % DISC.length;
+};
+
+type Pressed = Record<ControllerSide, Set<ControllerInput>>;
+
+/**
+ * Translates keyboard and gamepad input into hand controller state, according
+ * to an `InputMapping`.
+ *
+ * Keyboard input arrives as events; gamepads have to be polled with
+ * `pollGamepads()`, once per frame.
+ */
+export class InputMapper {
+  controllers: Readonly<Record<ControllerSide, HandController>>;
+  mapping: InputMapping;
+
+  #keyboard: Pressed = {left: new Set(), right: new Set()};
+  #gamepads: Pressed = {left: new Set(), right: new Set()};
+  /** Analog stick directions, when past the deadzone. */
+  #sticks: Record<ControllerSide, DiscDirection | null> = {
+    left: null,
+    right: null,
+  };
+
+  constructor(
+    controllers: Readonly<Record<ControllerSide, HandController>>,
+    mapping: InputMapping = DEFAULT_MAPPING,
+  ) {
+    this.controllers = controllers;
+    this.mapping = mapping;
+  }
+
+  /** Returns whether the key was mapped to anything. */
+  keyDown(code: string): boolean {
+    return this.#key(code, true);
+  }
+
+  /** Returns whether the key was mapped to anything. */
+  keyUp(code: string): boolean {
+    return this.#key(code, false);
+  }
+
+  /** Lets go of everything held on the keyboard, e.g. when focus is lost. */
+  releaseKeys(): void {
+    this.#keyboard.left.clear();
+    this.#keyboard.right.clear();
+    this.#update("left");
+    this.#update("right");
+  }
+
+  pollGamepads(gamepads: ReadonlyArray<Gamepad | null>): void {
+    for (const side of ["left", "right"] as const) {
+      this.#gamepads[side].clear();
+      this.#sticks[side] = null;
+    }
+
+    this.mapping.gamepads.forEach((mapping, index) => {
+      const gamepad = gamepads[index];
+      if (!gamepad) return;
+      const pressed = this.#gamepads[mapping.controller];
+
+      gamepad.buttons.forEach((button, buttonIndex) => {
+        const input = mapping.buttons[buttonIndex];
+        if (button.pressed && input != null) pressed.add(input);
+      });
+
+      const x = gamepad.axes[mapping.stick * 2] ?? 0;
+      // Gamepad axes point down:
+      const y = -(gamepad.axes[mapping.stick * 2 + 1] ?? 0);
+      if (Math.hypot(x, y) > mapping.deadzone) {
+        this.#sticks[mapping.controller] = discDirection(x, y);
+      }
+    });
+
+    this.#update("left");
+    this.#update("right");
+  }
+
+  /**
+   * Listens for keyboard input on `target`, returning a function that stops
+   * listening.
+   */
+  attach(target: Window): () => void {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (this.keyDown(event.code)) event.preventDefault();
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (this.keyUp(event.code)) event.preventDefault();
+    };
+    const onBlur = () => this.releaseKeys();
+    target.addEventListener("keydown", onKeyDown);
+    target.addEventListener("keyup", onKeyUp);
+    target.addEventListener("blur", onBlur);
+    return () => {
+      target.removeEventListener("keydown", onKeyDown);
+      target.removeEventListener("keyup", onKeyUp);
+      target.removeEventListener("blur", onBlur);
+    };
+  }
+
+  #key(code: string, down: boolean): boolean {
+    const binding = this.mapping.keyboard[code];
+    if (!binding) return false;
+    const pressed = this.#keyboard[binding.controller];
+    if (down) {
+      pressed.add(binding.input);
+    } else {
+      pressed.delete(binding.input);
+    }
+    this.#update(binding.controller);
+    return true;
+  }
+
+  #update(side: ControllerSide): void {
+    const controller = this.controllers[side];
+    const pressed = new Set([...this.#keyboard[side], ...this.#gamepads[side]]);
+    const held = (input: DiscInput) => (pressed.has(input) ? 1 : 0);
+
+    controller.keys.clear();
+    controller.buttons.clear();
+    for (const input of pressed) {
+      if (!(DISC_INPUTS as ControllerInput[]).includes(input)) {
+        controller.press(input as Key | SideButton);
+      }
+    }
+    controller.setDisc(
+      discDirection(
+        held("east") - held("west"),
+        held("north") - held("south"),
+      ) ?? this.#sticks[side],
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  CONTROLLER_INPUTS,
+  ControllerInput,
+  ControllerSide,
+  DEFAULT_MAPPING,
+  InputMapping,
+  bindGamepadButton,
+  bindKey,
+} from "./InputMapping";
+
+const SIDES: ReadonlyArray<ControllerSide> = ["left", "right"];
+
+const LABELS: Partial<Record<ControllerInput, string>> = {
+  north: "Disc up",
+  east: "Disc right",
+  south: "Disc down",
+  west: "Disc left",
+  clear: "Clear",
+  enter: "Enter",
+  top: "Top button",
+  left: "Lower left button",
+  right: "Lower right button",
+};
+
+/**
+ * Settings panel for editing an `InputMapping`.
+ *
+ * Click a binding, then press the key (or gamepad button) to use for it.
+ * Escape cancels; Backspace or Delete clears the binding.
+ */
+export class InputSettings {
+  element: HTMLElement;
+  mapping: InputMapping;
+  onChange: ((mapping: InputMapping) => void) | null = null;
+
+  /** Stops waiting for input for the binding being edited, if any. */
+  #cancelCapture: (() => void) | null = null;
+
+  constructor(element: HTMLElement, mapping: InputMapping) {
+    this.element = element;
+    this.mapping = mapping;
+    this.render();
+  }
+
+  render(): void {
+    this.#cancelCapture?.();
+    const gamepadCount = this.mapping.gamepads.length;
+    const headings = [
+      "",
+      ...SIDES.map((side) => `Keyboard (${side})`),
+      ...this.mapping.gamepads.map(
+        ({controller}, index) => `Gamepad ${index + 1} (${controller})`,
+      ),
+    ];
+    this.element.innerHTML = `
+      <table>
+        <thead>
+          <tr>${headings.map((heading) => `<th>${heading}</th>`).join("")}</tr>
+        </thead>
+        <tbody>
+          ${CONTROLLER_INPUTS.map(
+            (input) => `
+              <tr>
+                <th>${LABELS[input] ?? `Keypad ${input}`}</th>
+                ${SIDES.map(
+                  (side) =>
+                    `<td><button type="button" data-input="${input}" data-side="${side}">${
+                      this.#keyFor(side, input) ?? "-"
+                    }</button></td>`,
+                ).join("")}
+                ${Array.from(
+                  {length: gamepadCount},
+                  (_, gamepad) =>
+                    `<td><button type="button" data-input="${input}" data-gamepad="${gamepad}">${
+                      this.#buttonFor(gamepad, input) ?? "-"
+                    }</button></td>`,
+                ).join("")}
+              </tr>
+            `,
+          ).join("")}
+        </tbody>
+      </table>
+      <button type="button" class="reset">Reset to defaults</button>
+    `;
+
+    this.element
+      .querySelector<HTMLButtonElement>(".reset")!
+      .addEventListener("click", () => this.#change(DEFAULT_MAPPING));
+    for (const button of this.element.querySelectorAll<HTMLButtonElement>(
+      "button[data-input]",
+    )) {
+      button.addEventListener("click", () => this.#capture(button));
+    }
+  }
+
+  #keyFor(side: ControllerSide, input: ControllerInput): string | null {
+    const entry = Object.entries(this.mapping.keyboard).find(
+      ([, binding]) => binding.controller === side && binding.input === input,
+    );
+    return entry?.[0] ?? null;
+  }
+
+  #buttonFor(gamepad: number, input: ControllerInput): number | null {
+    const entry = Object.entries(
+      this.mapping.gamepads[gamepad]?.buttons ?? {},
+    ).find(([, bound]) => bound === input);
+    return entry ? Number(entry[0]) : null;
+  }
+
+  #change(mapping: InputMapping): void {
+    this.mapping = mapping;
+    this.render();
+    this.onChange?.(mapping);
+  }
+
+  /** Waits for the input to bind to `button`'s entry. */
+  #capture(button: HTMLButtonElement): void {
+    this.#cancelCapture?.();
+    const input = button.dataset.input as ControllerInput;
+    const side = button.dataset.side as ControllerSide | undefined;
+    const gamepad = button.dataset.gamepad;
+    button.textContent = side ? "Press a key…" : "Press a button…";
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (event.code === "Escape") return this.render();
+      const clear = event.code === "Backspace" || event.code === "Delete";
+      if (side) {
+        this.#change(
+          bindKey(
+            this.mapping,
+            {controller: side, input},
+            clear ? null : event.code,
+          ),
+        );
+      } else if (clear) {
+        this.#change(
+          bindGamepadButton(this.mapping, Number(gamepad), input, null),
+        );
+      }
+    };
+
+    let frame: number | null = null;
+    const pollGamepad = () => {
+      const pressed = navigator
+        .getGamepads()
+        [Number(gamepad)]?.buttons.findIndex((button) => button.pressed);
+      if (pressed != null && pressed >= 0) {
+        this.#change(
+          bindGamepadButton(this.mapping, Number(gamepad), input, pressed),
+        );
+      } else {
+        frame = requestAnimationFrame(pollGamepad);
+      }
+    };
+    if (gamepad != null) frame = requestAnimationFrame(pollGamepad);
+
+    // Capture, so the emulator doesn't see the key too:
+    window.addEventListener("keydown", onKeyDown, {capture: true});
+    this.#cancelCapture = () => {
+      window.removeEventListener("keydown", onKeyDown, {capture: true});
+      if (frame != null) cancelAnimationFrame(frame);
+      this.#cancelCapture = null;
+    };
+  }
+}
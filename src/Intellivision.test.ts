@@ -0,0 +1,109 @@
+import {describe, expect, test} from "vitest";
+import {GROM} from "./GROM";
+import {Intellivoice} from "./Intellivoice";
+import {PagedROM} from "./PagedROM";
+import {RAM} from "./RAM";
+import {STIC} from "./STIC";
+import {intellivisionFactory, toBin} from "./testHelpers";
+
+// prettier-ignore
+const exec = [
+  /* $1000 */ 0x02b8, 0x002a, // MVII #$002A,R0
+  /* $1002 */ 0x0240, 0x0200, // MVO R0,$0200 (System RAM)
+  /* $1004 */ 0x0240, 0x0100, // MVO R0,$0100 (scratchpad)
+  /* $1006 */ 0x0240, 0x01fb, // MVO R0,$01FB (PSG channel A volume)
+  /* $1008 */ 0x0000, // HLT
+];
+
+const createIntellivision = intellivisionFactory(exec);
+
+describe("Intellivision", () => {
+  test("runs EXEC against the Master Component's memory", () => {
+    const intv = createIntellivision();
+    intv.runUntil(() => false, 1000);
+    expect(intv.cpu.halted).toBe(true);
+    expect(intv.systemRam.data[0]).toBe(0x2a);
+    expect(intv.scratchpad.data[0]).toBe(0x2a);
+    expect(intv.psg.registers[0xb]).toBe(0x2a);
+  });
+
+  test("maps everything where the hardware has it", () => {
+    const intv = createIntellivision();
+    const owner = (addr: number) => intv.memory.owner(addr)?.device;
+    expect(owner(0x0000)).toBe(intv.stic);
+    expect(owner(0x0100)).toBe(intv.scratchpad);
+    expect(owner(0x01f0)).toBe(intv.psg);
+    expect(owner(0x1000)).toBe(intv.exec);
+    expect(intv.exec.width).toBe(10);
+    expect(owner(0x3000)).toBeInstanceOf(GROM);
+    expect(owner(0x3800)?.name).toBe("GRAM");
+    expect(owner(0x4000)).toBe(intv.stic);
+    // System RAM sits on the bus directly:
+    expect(owner(0x0200)).toBe(undefined);
+    expect(intv.ecsPsg).toBe(null);
+    expect(intv.intellivoice).toBe(null);
+  });
+
+  test("plugs in the ECS and Intellivoice", () => {
+    const ecs = new Uint8Array(0x6000);
+    const intv = createIntellivision({ecs, intellivoice: true});
+    const owner = (addr: number) => intv.memory.owner(addr)?.device;
+    expect(owner(0x0080)).toBeInstanceOf(Intellivoice);
+    expect(owner(0x00f0)).toBe(intv.ecsPsg);
+    expect(owner(0x2000)).toBeInstanceOf(PagedROM);
+    expect(owner(0x7000)).toBeInstanceOf(PagedROM);
+    expect(owner(0xe000)).toBeInstanceOf(PagedROM);
+    // ECS RAM takes the place of the STIC mirror:
+    expect(owner(0x4000)).toBeInstanceOf(RAM);
+    expect(owner(0x8000)).toBe(intv.stic);
+    // Always ready to speak:
+    expect(intv.memory.debug_read(0x0080)).toBe(0x8000);
+  });
+
+  test("loads the cartridge", () => {
+    const cartridge = toBin([0x0001, 0x0002]);
+    const intv = createIntellivision({cartridge});
+    expect(intv.cartridge?.format).toBe("bin");
+    expect(intv.memory.debug_read(0x5001)).toBe(0x0002);
+  });
+
+  test("runs frames, producing video and audio", () => {
+    const intv = createIntellivision({sampleRate: 48_000});
+    intv.runFrame();
+    expect(intv.stic.frame).toBe(1);
+    expect(intv.cycles).toBe(STIC.CYCLES_PER_FRAME);
+    // About 1/60th of a second:
+    expect(intv.samples.length).toBeGreaterThan(790);
+    expect(intv.samples.length).toBeLessThan(810);
+  });
+
+  test("runs longer frames on a PAL machine", () => {
+    const intv = createIntellivision({sampleRate: 48_000, standard: "pal"});
+    intv.runFrame();
+    expect(intv.stic.frame).toBe(1);
+    expect(intv.cycles).toBe(20000);
+    // About 1/50th of a second:
+    expect(intv.samples.length).toBeGreaterThan(950);
+    expect(intv.samples.length).toBeLessThan(970);
+  });
+
+  test("resets the CPU, keeping RAM", () => {
+    const intv = createIntellivision();
+    intv.runUntil(() => false, 1000);
+    intv.systemRam.data[1] = 0x1234;
+    intv.reset();
+    expect(intv.cpu.halted).toBe(false);
+    expect(intv.stepInstruction().pc).toBe(0x1000);
+    expect(intv.systemRam.data[1]).toBe(0x1234);
+  });
+
+  test("power cycles into a fresh machine", () => {
+    const intv = createIntellivision();
+    intv.runUntil(() => false, 1000);
+    const fresh = intv.powerCycle();
+    expect(fresh).not.toBe(intv);
+    expect(fresh.config).toBe(intv.config);
+    expect(fresh.cycles).toBe(0);
+    expect(fresh.systemRam.data[0]).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import {Bus} from "./Bus";
+import {GRAM} from "./GRAM";
+import {GROM} from "./GROM";
+import {HandController} from "./HandController";
+import {Intellivoice} from "./Intellivoice";
+import {Machine} from "./Machine";
+import {CLOCK_RATES, CYCLES_PER_FRAME, VideoStandard} from "./MainLoop";
+import {MemoryMap, MemoryRegion} from "./MemoryMap";
+import {PSG} from "./PSG";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+import {RingBuffer} from "./RingBuffer";
+import {STIC} from "./STIC";
+import {SystemRAM} from "./SystemRAM";
+import {loadBinCfg, readBin} from "./binCfg";
+import {Cartridge, loadCartridge} from "./cartridge";
+import {CP1610} from "./cp1610";
+
+export type IntellivisionConfig = Readonly<{
+  /** `exec.bin` (see `roms/README.md`). */
+  exec: Uint8Array;
+  /** `grom.bin`. */
+  grom: Uint8Array;
+  /** Any image `loadCartridge` understands. */
+  cartridge?: Uint8Array | null;
+  /** `.cfg` for a `.bin`-style cartridge. */
+  cfg?: string;
+  /** `ecs.bin`, to plug in an Entertainment Computer System. */
+  ecs?: Uint8Array | null;
+  intellivoice?: boolean;
+  /** For the PSGs' output. */
+  sampleRate?: number;
+  /** Which kind of Master Component this is. Defaults to NTSC. */
+  standard?: VideoStandard;
+}>;
+
+/**
+ * Where `ecs.bin` goes: ROM at $2000 and $E000 which games have to page in,
+ * and at $7000 which is visible at power-up. Plus 2K of 8-bit RAM.
+ */
+const ECS_CFG = `
+[mapping]
+$0000 - $0FFF = $2000 PAGE 1
+$1000 - $1FFF = $7000 PAGE 0
+$2000 - $2FFF = $E000 PAGE 1
+
+[memattr]
+$4000 - $47FF = RAM 8
+`;
+
+/**
+ * A complete Intellivision Master Component, with whatever cartridge and
+ * add-ons `config` asks for:
+ *
+ * - $0000-$003F: STIC registers
+ * - $0080-$0081: Intellivoice (optional)
+ * - $00F0-$00FF: ECS PSG (optional)
+ * - $0100-$01EF: 8-bit scratchpad RAM
+ * - $01F0-$01FF: PSG, and the hand controllers through its I/O ports
+ * - $0200-$035F: System RAM (including BACKTAB)
+ * - $1000-$1FFF: EXEC
+ * - $3000-$37FF: GROM
+ * - $3800-$39FF: GRAM
+ * - ECS ROM at $2000, $7000, and $E000, and RAM at $4000 (optional)
+ *
+ * Anything else is up to the cartridge. The STIC's register mirrors at $4000,
+ * $8000, and $C000 are only mapped where nothing else is.
+ */
+export class Intellivision extends Machine {
+  config: IntellivisionConfig;
+  memory: MemoryMap;
+  systemRam: SystemRAM;
+  scratchpad: RAM;
+  exec: ROM;
+  stic: STIC;
+  psg: PSG;
+  controllers: Readonly<{left: HandController; right: HandController}>;
+  cartridge: Cartridge | null;
+  /** The ECS's second PSG, if it's plugged in. */
+  ecsPsg: PSG | null;
+  intellivoice: Intellivoice | null;
+  standard: VideoStandard;
+  /** Both PSGs' output mixed together, filled by `runFrame()`. */
+  samples: RingBuffer;
+
+  constructor(config: IntellivisionConfig) {
+    const bus = new Bus();
+    super(bus, new CP1610(bus));
+    this.config = config;
+    const {sampleRate} = config;
+    this.standard = config.standard ?? "ntsc";
+
+    this.memory = new MemoryMap(bus);
+    this.systemRam = new SystemRAM(bus, 0x0200, 0x0360);
+    this.stic = new STIC(bus, {
+      debug_read: (addr) =>
+        this.systemRam.debug_read(addr) ?? this.memory.debug_read(addr),
+    });
+    this.psg = new PSG(bus, sampleRate);
+    this.controllers = {
+      left: new HandController(this.psg, HandController.LEFT),
+      right: new HandController(this.psg, HandController.RIGHT),
+    };
+    this.scratchpad = new RAM(bus, 0x0100, 0x01f0, 8);
+    this.exec = new ROM(bus, CP1610.RESET_VECTOR, readBin(config.exec), 10);
+    this.samples = new RingBuffer(this.psg.samples.capacity);
+
+    this.memory
+      .add(this.scratchpad, 0x0100, 0x01f0)
+      .add(this.exec, this.exec.start, this.exec.start + this.exec.data.length)
+      .add(new GROM(bus, config.grom), GROM.START, GROM.START + GROM.SIZE)
+      .add(new GRAM(bus, this.stic), GRAM.START, GRAM.END);
+    const [sticRegisters, ...sticMirrors] = this.stic.regions();
+    this.#map(this.psg.regions());
+    this.#map([sticRegisters!]);
+
+    this.ecsPsg = null;
+    if (config.ecs) {
+      this.ecsPsg = new PSG(bus, sampleRate, undefined, 0x00f0);
+      this.#map(this.ecsPsg.regions());
+      this.#map(loadBinCfg(bus, config.ecs, ECS_CFG).regions);
+    }
+
+    this.intellivoice = null;
+    if (config.intellivoice) {
+      this.intellivoice = new Intellivoice();
+      this.#map(this.intellivoice.regions());
+    }
+
+    this.cartridge = null;
+    if (config.cartridge) {
+      this.cartridge = loadCartridge(bus, config.cartridge, config.cfg);
+      this.#map(this.cartridge.regions);
+    }
+
+    for (const region of sticMirrors) {
+      if (this.memory.owner(region.start) == null) this.#map([region]);
+    }
+
+    this.devices.push(this.memory, this.systemRam, this.stic, this.psg);
+    if (this.ecsPsg) this.devices.push(this.ecsPsg);
+
+    this.stic.cyclesPerFrame = CYCLES_PER_FRAME[this.standard];
+    for (const psg of [this.psg, this.ecsPsg]) {
+      if (psg) psg.clockRate = CLOCK_RATES[this.standard];
+    }
+  }
+
+  get sampleRate(): number {
+    return this.psg.sampleRate;
+  }
+
+  set sampleRate(sampleRate: number) {
+    this.psg.sampleRate = sampleRate;
+    if (this.ecsPsg) this.ecsPsg.sampleRate = sampleRate;
+  }
+
+  /** Runs one frame's worth of cycles, and mixes the audio. */
+  runFrame(): void {
+    this.stepCycles(CYCLES_PER_FRAME[this.standard]);
+
+    const {psg, ecsPsg} = this;
+    const count = psg.samples.length;
+    const mixed = new Float32Array(count);
+    psg.samples.read(mixed);
+    if (ecsPsg) {
+      const extra = new Float32Array(count);
+      ecsPsg.samples.read(extra);
+      for (let i = 0; i < count; ++i) mixed[i] = (mixed[i]! + extra[i]!) / 2;
+    }
+    for (const sample of mixed) this.samples.push(sample);
+  }
+
+  /**
+   * Also drops any audio that hasn't been played yet, which belongs to
+   * wherever we were before.
+   */
+  loadState(bytes: Uint8Array): void {
+    super.loadState(bytes);
+    this.samples.clear();
+    this.psg.samples.clear();
+    this.ecsPsg?.samples.clear();
+  }
+
+  /**
+   * A brand new machine with the same config: as if it had been switched off
+   * and on again, so everything (RAM included) starts over.
+   */
+  powerCycle(): Intellivision {
+    return new Intellivision(this.config);
+  }
+
+  #map(regions: Iterable<MemoryRegion>): void {
+    for (const {device, start, end, offset} of regions) {
+      this.memory.add(device, start, end, offset);
+    }
+  }
+}
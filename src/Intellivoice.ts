@@ -0,0 +1,69 @@
+import {MemoryDevice, MemoryRegion} from "./MemoryMap";
+import {StateReader, StateWriter} from "./SaveState";
+
+/**
+ * The Intellivoice's CPU interface: the registers at $0080-$0081, belonging to
+ * its SP0256-012 speech processor and SPB640 speech buffer.
+ *
+ * - $0080: write an allophone to speak; reads bit 15 set while the chip can
+ *   take another (load request, LRQ).
+ * - $0081: the SPB640 FIFO, used for speech data streamed from the cartridge;
+ *   reads bit 15 set when full. Writing bit 10 clears it.
+ *
+ * Speech itself isn't synthesized yet: that takes the SP0256's LPC filter, run
+ * by the microcode in its internal ROM (`ivoice.bin`, see `roms/README.md`),
+ * and is left for a follow-up. Until then, allophones are thrown away as soon
+ * as they're written, and the chip always says it's ready for more, so that
+ * Intellivoice games at least don't hang waiting on it.
+ */
+export class Intellivoice implements MemoryDevice {
+  static START = 0x0080;
+  static END = 0x0082;
+
+  name: string = "Intellivoice";
+  /** Words written to the FIFO since it was last cleared. */
+  fifoWrites: number = 0;
+
+  regions(): MemoryRegion[] {
+    return [{device: this, start: Intellivoice.START, end: Intellivoice.END}];
+  }
+
+  read(offset: number): number | null {
+    switch (offset) {
+      case 0: {
+        return 0x8000;
+      }
+      case 1: {
+        return 0x0000;
+      }
+      default: {
+        return null;
+      }
+    }
+  }
+
+  reset(): void {
+    this.fifoWrites = 0;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.u32(this.fifoWrites);
+  }
+
+  loadState(reader: StateReader): void {
+    this.fifoWrites = reader.u32();
+  }
+
+  write(offset: number, data: number): void {
+    switch (offset) {
+      case 0: {
+        // Nothing to speak it with:
+        return;
+      }
+      case 1: {
+        this.fifoWrites = data & 0x0400 ? 0 : this.fifoWrites + 1;
+        return;
+      }
+    }
+  }
+}
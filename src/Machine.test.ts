@@ -0,0 +1,143 @@
+import {describe, expect, test} from "vitest";
+import {Bus} from "./Bus";
+import {Machine} from "./Machine";
+import {MemoryMap} from "./MemoryMap";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+import {CP1610} from "./cp1610";
+
+// prettier-ignore
+const program = [
+  /* $1000 */ 0x02b8, 0x0005, // MVII #$0005,R0
+  /* $1002 */ 0x0240, 0x0300, // MVO R0,$0300
+  /* $1004 */ 0x0010, // DECR R0
+  /* $1005 */ 0x022c, 0x0002, // BNEQ $1004
+  /* $1007 */ 0x0000, // HLT
+];
+
+const createMachine = () => {
+  const bus = new Bus();
+  const cpu = new CP1610(bus);
+  const ram = new RAM(bus, 0x0000, CP1610.RESET_VECTOR);
+  const memory = new MemoryMap(bus)
+    .add(ram, 0x0000, CP1610.RESET_VECTOR)
+    .add(
+      new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.from(program)),
+      CP1610.RESET_VECTOR,
+      CP1610.RESET_VECTOR + program.length,
+    );
+  return {bus, cpu, ram, machine: new Machine(bus, cpu, [memory])};
+};
+
+describe("Machine", () => {
+  test("steps one instruction at a time", () => {
+    const {cpu, machine} = createMachine();
+
+    const mvii = machine.stepInstruction();
+    expect(mvii).toMatchObject({
+      pc: 0x1000,
+      opcode: 0x02b8,
+      cycles: 8,
+      halted: false,
+    });
+    expect(mvii.instruction?.mnemonic).toBe("MVII");
+    expect(cpu.r[0]).toBe(5);
+
+    const mvo = machine.stepInstruction();
+    expect(mvo).toMatchObject({pc: 0x1002, opcode: 0x0240, cycles: 11});
+    // The instruction and operand fetches, then the write:
+    expect(mvo.transactions.filter(({flags}) => flags === Bus.DWS)).toEqual([
+      {flags: Bus.DWS, data: 5},
+    ]);
+    expect(mvo.transactions.map(({flags}) => flags)).toContain(Bus.DTB);
+  });
+
+  test("decodes instructions the way the CPU does", () => {
+    const bus = new Bus();
+    const cpu = new CP1610(bus);
+    // MVII #$0005,R0, with the opcode's unused upper bits set:
+    const rom = new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.of(0xfeb8, 5));
+    const memory = new MemoryMap(bus).add(
+      rom,
+      CP1610.RESET_VECTOR,
+      CP1610.RESET_VECTOR + 2,
+    );
+    const machine = new Machine(bus, cpu, [memory]);
+    expect(machine.stepInstruction().instruction?.mnemonic).toBe("MVII");
+    expect(cpu.r[0]).toBe(5);
+  });
+
+  test("reports halting", () => {
+    const {machine} = createMachine();
+    let step = machine.stepInstruction();
+    while (!step.halted) step = machine.stepInstruction();
+    expect(step).toMatchObject({pc: 0x1007, opcode: 0x0000});
+  });
+
+  test("runs until a predicate holds", () => {
+    const {cpu, machine} = createMachine();
+    const result = machine.runUntil(() => cpu.r[0] === 2);
+    // MVII, MVO, DECR/BNEQ twice, then the DECR that got R0 to 2:
+    expect(result).toMatchObject({instructions: 7, reason: "predicate"});
+    expect(cpu.r[7]).toBe(0x1005);
+  });
+
+  test("stops running when halted, or out of cycles", () => {
+    const {ram, machine} = createMachine();
+    expect(machine.runUntil(() => false, 20)).toMatchObject({
+      instructions: 3,
+      reason: "limit",
+    });
+    expect(machine.runUntil(() => false).reason).toBe("halted");
+    expect(ram.data[0x0300]).toBe(5);
+  });
+
+  test("steps cycles regardless of instruction boundaries", () => {
+    const {machine} = createMachine();
+    machine.stepCycles(3);
+    expect(machine.cycles).toBe(3);
+    expect(machine.ticks).toBe(12);
+    // Finishes the instruction in progress before stepping the next whole one:
+    expect(machine.stepInstruction().pc).toBe(0x1000);
+  });
+
+  describe("reset", () => {
+    test("restarts from the reset vector, even mid-instruction", () => {
+      const {cpu, ram, machine} = createMachine();
+      machine.runUntil(() => cpu.r[0] === 3);
+      machine.stepCycles(2);
+      ram.data[0x0300] = 0x1234;
+
+      machine.reset();
+      expect([...cpu.r]).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+      expect(cpu.i).toBe(false);
+
+      expect(machine.stepInstruction()).toMatchObject({pc: 0x1000});
+      expect(cpu.r[0]).toBe(5);
+      // Memory keeps its contents:
+      expect(ram.data[0x0300]).toBe(0x1234);
+    });
+
+    test("wakes a halted CPU", () => {
+      const {cpu, machine} = createMachine();
+      machine.runUntil(() => false);
+      expect(cpu.halted).toBe(true);
+      machine.reset();
+      expect(cpu.halted).toBe(false);
+      expect(machine.runUntil(() => false).reason).toBe("halted");
+    });
+
+    test("fetches the reset vector over IAB again", () => {
+      const {bus, machine} = createMachine();
+      machine.stepInstruction();
+      machine.reset();
+      const phases: number[] = [];
+      while (phases.length < 8) {
+        machine.tick();
+        if (bus.ticks === 1) phases.push(bus.flags);
+      }
+      expect(phases).toContain(Bus.IAB);
+      expect(phases.indexOf(Bus.IAB)).toBeLessThan(phases.indexOf(Bus.BAR));
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import {Bus, BusDevice, BusFlags} from "./Bus";
+import {InstructionConfig} from "./InstructionConfig";
+import {MemoryDevice, MemoryMap} from "./MemoryMap";
+import {
+  SaveStateError,
+  StateReader,
+  StateWriter,
+  Stateful,
+  isStateful,
+} from "./SaveState";
+import {CP1610, DECLE_MASK} from "./cp1610";
+import {decodeOpcode} from "./decodeOpcode";
+
+/** One micro-cycle's worth of bus activity. */
+export type BusTransaction = Readonly<{
+  flags: BusFlags;
+  /** What was on the bus at the end of the micro-cycle. */
+  data: number;
+}>;
+
+export type InstructionStep = Readonly<{
+  /** Address the instruction was fetched from. */
+  pc: number;
+  opcode: number;
+  instruction: InstructionConfig | null;
+  /**
+   * CPU cycles from this instruction's fetch to the next one's. This includes
+   * any interrupt processing that followed it, and time spent with the bus
+   * handed to another device.
+   */
+  cycles: number;
+  /** Every micro-cycle with something happening on the bus, in order. */
+  transactions: ReadonlyArray<BusTransaction>;
+  /** Whether the CPU halted instead of fetching another instruction. */
+  halted: boolean;
+}>;
+
+export type RunResult = Readonly<{
+  /** Instructions completed. */
+  instructions: number;
+  cycles: number;
+  reason: "predicate" | "halted" | "limit";
+}>;
+
+/**
+ * A CPU and the devices around it, all clocked together off one bus.
+ *
+ * Each tick clocks the bus and then every device in order, the CPU first; four
+ * ticks make a CPU cycle. On top of that, instructions can be run one (or
+ * many) at a time.
+ *
+ * Note that this hooks `cpu.onInstructionFetch` when constructed, calling
+ * through to whatever callback was there before.
+ */
+export class Machine {
+  bus: Bus;
+  cpu: CP1610;
+  devices: BusDevice[];
+  /** Ticks of the bus since the machine was created. */
+  ticks: number = 0;
+
+  /** Whether the last tick ended at the start of an instruction fetch. */
+  #atInstruction: boolean = false;
+  #transactions: BusTransaction[] | null = null;
+
+  constructor(bus: Bus, cpu: CP1610, devices: ReadonlyArray<BusDevice> = []) {
+    this.bus = bus;
+    this.cpu = cpu;
+    this.devices = [cpu, ...devices];
+
+    const onInstructionFetch = cpu.onInstructionFetch;
+    cpu.onInstructionFetch = () => {
+      this.#atInstruction = true;
+      if (onInstructionFetch) onInstructionFetch();
+    };
+  }
+
+  /** CPU cycles since the machine was created. */
+  get cycles(): number {
+    return Math.floor(this.ticks / 4);
+  }
+
+  tick(): void {
+    this.#atInstruction = false;
+    this.bus.clock();
+    for (const device of this.devices) device.clock();
+    this.ticks += 1;
+    if (
+      this.#transactions &&
+      this.bus.ticks === 3 &&
+      this.bus.flags !== Bus.___
+    ) {
+      this.#transactions.push({flags: this.bus.flags, data: this.bus.data});
+    }
+  }
+
+  /**
+   * Runs `count` CPU cycles, regardless of instruction boundaries. Devices
+   * keep running even if the CPU has halted.
+   */
+  stepCycles(count: number): void {
+    for (let i = 0; i < count * 4; ++i) this.tick();
+  }
+
+  /**
+   * Runs one whole instruction, from its fetch up to the next one's.
+   *
+   * If we're not at an instruction boundary (right after power-up, or after
+   * `stepCycles`), whatever's in progress is finished first and isn't counted.
+   */
+  stepInstruction(): InstructionStep {
+    if (!this.#atInstruction) this.#runToInstruction();
+
+    const pc = this.cpu.r[7]!;
+    const start = this.ticks;
+    const transactions: BusTransaction[] = [];
+    this.#transactions = transactions;
+    try {
+      do {
+        this.tick();
+      } while (!this.#atInstruction && !this.cpu.halted);
+    } finally {
+      this.#transactions = null;
+    }
+
+    return {
+      pc,
+      opcode: this.cpu.opcode,
+      instruction: decodeOpcode(this.cpu.opcode & DECLE_MASK),
+      cycles: (this.ticks - start) / 4,
+      transactions,
+      halted: this.cpu.halted,
+    };
+  }
+
+  /**
+   * Runs instructions until `predicate` returns true (checked before each
+   * one), the CPU halts, or `maxCycles` have passed.
+   */
+  runUntil(
+    predicate: (machine: Machine) => boolean,
+    maxCycles: number = Infinity,
+  ): RunResult {
+    if (!this.#atInstruction) this.#runToInstruction();
+
+    const start = this.cycles;
+    let instructions = 0;
+    const result = (reason: RunResult["reason"]): RunResult => ({
+      instructions,
+      cycles: this.cycles - start,
+      reason,
+    });
+    for (;;) {
+      if (predicate(this)) return result("predicate");
+      if (this.cpu.halted) return result("halted");
+      if (this.cycles - start >= maxCycles) return result("limit");
+
+      do {
+        this.tick();
+      } while (!this.#atInstruction && !this.cpu.halted);
+      if (this.#atInstruction) instructions += 1;
+    }
+  }
+
+  /**
+   * Presses the reset button: holds RESET for `cycles` CPU cycles, starting
+   * at the next micro-cycle boundary, then lets go. Everything on the bus
+   * resets itself and the CPU starts over from the reset vector, but memory
+   * keeps its contents.
+   */
+  reset(cycles: number = 1): void {
+    while (this.bus.ticks !== 3) this.tick();
+    this.bus.reset = true;
+    try {
+      this.stepCycles(cycles);
+    } finally {
+      this.bus.reset = false;
+    }
+    this.#atInstruction = false;
+  }
+
+  /**
+   * Saves the state of the whole machine, wherever it is: mid-instruction,
+   * with the bus handed to another device, or even in the middle of a reset.
+   *
+   * Every device on the bus, and every device mapped by a `MemoryMap` on the
+   * bus, needs to support save states (see `Stateful`). Host-side things like
+   * audio buffers and controller inputs aren't saved.
+   */
+  saveState(): Uint8Array {
+    const writer = new StateWriter();
+    writer.section("Machine", () => {
+      writer.f64(this.ticks);
+      writer.bool(this.#atInstruction);
+      writer.section("Bus", () => {
+        this.bus.saveState(writer);
+        const master = this.bus.master;
+        const index = master ? this.devices.indexOf(master) : null;
+        if (index === -1) throw new Error(`Bus master isn't on the bus`);
+        writer.nullable(index);
+      });
+      for (const device of this.#statefulDevices()) {
+        writer.section(device.name ?? "Device", () => device.saveState(writer));
+      }
+    });
+    return writer.finish();
+  }
+
+  /**
+   * Restores a state saved by `saveState`, from a machine built the same way:
+   * with the same devices, mapped the same way.
+   *
+   * Throws a `SaveStateError` if it doesn't fit, in which case the machine is
+   * left in an undefined state; `powerCycle` or restore another state.
+   */
+  loadState(bytes: Uint8Array): void {
+    const reader = new StateReader(bytes);
+    reader.section("Machine", () => {
+      this.ticks = reader.f64();
+      this.#atInstruction = reader.bool();
+      reader.section("Bus", () => {
+        this.bus.loadState(reader);
+        const offset = reader.offset;
+        const master = reader.nullable();
+        if (master != null && master >= this.devices.length) {
+          throw new SaveStateError(offset, `Unknown bus master ${master}`);
+        }
+        this.bus.master = master == null ? null : this.devices[master]!;
+      });
+      for (const device of this.#statefulDevices()) {
+        reader.section(device.name ?? "Device", () => device.loadState(reader));
+      }
+    });
+    if (reader.offset !== bytes.length) {
+      throw new SaveStateError(reader.offset, `Unexpected data after state`);
+    }
+  }
+
+  /**
+   * Everything with state, in a stable order: the devices on the bus, then
+   * whatever's mapped by any `MemoryMap`s among them.
+   */
+  #statefulDevices(): (Stateful & {name?: string})[] {
+    const devices = new Set<BusDevice | MemoryDevice>(this.devices);
+    for (const device of this.devices) {
+      if (!(device instanceof MemoryMap)) continue;
+      for (const mapped of device.devices) devices.add(mapped);
+    }
+    return [...devices].map((device) => {
+      if (!isStateful(device)) {
+        throw new Error(
+          `${device.name ?? "Device"} doesn't support save states`,
+        );
+      }
+      return device;
+    });
+  }
+
+  #runToInstruction(): void {
+    while (!this.#atInstruction && !this.cpu.halted) this.tick();
+  }
+}
@@ -0,0 +1,95 @@
+import {describe, expect, test} from "vitest";
+import {
+  CLOCK_RATES,
+  CYCLES_PER_FRAME,
+  FRAME_RATES,
+  FrameScheduler,
+  MainLoop,
+  VideoStandard,
+} from "./MainLoop";
+
+const createLoop = (standard?: "ntsc" | "pal") => {
+  let pending: ((now: number) => void) | null = null;
+  const scheduler: FrameScheduler = {
+    request: (callback) => {
+      pending = callback;
+      return 1;
+    },
+    cancel: () => {
+      pending = null;
+    },
+  };
+  let ran = 0;
+  let draws = 0;
+  const loop = new MainLoop(() => ++ran, standard, scheduler);
+  loop.onDraw = () => ++draws;
+  /** Delivers the next animation frame at `now`. */
+  const animate = (now: number) => pending?.(now);
+  return {
+    loop,
+    animate,
+    get ran() {
+      return ran;
+    },
+    get draws() {
+      return draws;
+    },
+  };
+};
+
+describe("MainLoop", () => {
+  test("runs 59.92 frames a second on a 60 Hz display", () => {
+    const harness = createLoop();
+    harness.loop.start();
+    for (let i = 0; i <= 600; ++i) harness.animate((i * 1000) / 60);
+    // 10 seconds:
+    expect(harness.ran).toBe(599);
+    expect(harness.draws).toBe(599);
+    expect(harness.loop.skipped).toBe(0);
+  });
+
+  test("runs 50 frames a second for PAL", () => {
+    const harness = createLoop("pal");
+    harness.loop.start();
+    for (let i = 0; i <= 1440; ++i) harness.animate((i * 1000) / 144);
+    expect(harness.ran).toBe(500);
+    expect(harness.draws).toBe(500);
+  });
+
+  test.each<VideoStandard>(["ntsc", "pal"])(
+    "%s frames last as long as the CPU takes to run them",
+    (standard) => {
+      const cyclesPerSecond =
+        CYCLES_PER_FRAME[standard] * FRAME_RATES[standard];
+      expect(cyclesPerSecond / (CLOCK_RATES[standard] / 4)).toBeCloseTo(1, 3);
+    },
+  );
+
+  test("catches up several frames at once on a slow display", () => {
+    const harness = createLoop();
+    harness.loop.start();
+    harness.animate(0);
+    harness.animate(50);
+    expect(harness.ran).toBe(2);
+    expect(harness.draws).toBe(1);
+  });
+
+  test("skips frames when too far behind", () => {
+    const harness = createLoop();
+    harness.loop.start();
+    harness.animate(0);
+    harness.animate(1000);
+    expect(harness.ran).toBe(MainLoop.MAX_CATCH_UP);
+    expect(harness.loop.skipped).toBe(59 - MainLoop.MAX_CATCH_UP);
+  });
+
+  test("stops scheduling frames when stopped", () => {
+    const harness = createLoop();
+    harness.loop.start();
+    harness.animate(0);
+    harness.loop.stop();
+    harness.animate(100);
+    expect(harness.ran).toBe(0);
+    expect(harness.loop.running).toBe(false);
+  });
+});
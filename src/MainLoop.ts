@@ -0,0 +1,116 @@
+export type VideoStandard = "ntsc" | "pal";
+
+/** Frames per second for each video standard. */
+export const FRAME_RATES: Readonly<Record<VideoStandard, number>> = {
+  ntsc: 59.92,
+  pal: 50,
+};
+
+/**
+ * Master clock rate for each video standard, in Hz. The CPU runs at a quarter
+ * of it.
+ */
+export const CLOCK_RATES: Readonly<Record<VideoStandard, number>> = {
+  ntsc: 3_579_545,
+  pal: 4_000_000,
+};
+
+/**
+ * CPU cycles per frame for each video standard. PAL frames aren't just less
+ * frequent, they're longer, so emulating one takes more cycles.
+ */
+export const CYCLES_PER_FRAME: Readonly<Record<VideoStandard, number>> = {
+  ntsc: 14934,
+  pal: 20000,
+};
+
+/** How `MainLoop` waits for the next display refresh. */
+export type FrameScheduler = Readonly<{
+  request(callback: (now: number) => void): number;
+  cancel(handle: number): void;
+}>;
+
+const animationFrames: FrameScheduler = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (handle) => cancelAnimationFrame(handle),
+};
+
+/**
+ * Runs emulated frames in step with wall-clock time, driven by
+ * `requestAnimationFrame`.
+ *
+ * The display's refresh rate rarely matches the emulated machine's, so each
+ * animation frame runs however many emulated frames are due: sometimes none,
+ * sometimes two. When far behind (say, after the tab was hidden), no more than
+ * `MAX_CATCH_UP` are run and the rest are skipped, rather than stalling the
+ * page trying to catch up.
+ */
+export class MainLoop {
+  static MAX_CATCH_UP = 4;
+
+  standard: VideoStandard;
+  /** Emulates one frame. */
+  runFrame: () => void;
+  /** Called after any animation frame which ran emulated frames. */
+  onDraw: (() => void) | null = null;
+  scheduler: FrameScheduler;
+
+  /** Number of emulated frames run so far. */
+  frames: number = 0;
+  /** Number of emulated frames skipped to catch up. */
+  skipped: number = 0;
+
+  #handle: number | null = null;
+  #last: number | null = null;
+  /** Milliseconds of emulated time that are due but haven't been run. */
+  #pending: number = 0;
+
+  constructor(
+    runFrame: () => void,
+    standard: VideoStandard = "ntsc",
+    scheduler: FrameScheduler = animationFrames,
+  ) {
+    this.runFrame = runFrame;
+    this.standard = standard;
+    this.scheduler = scheduler;
+  }
+
+  get running(): boolean {
+    return this.#handle != null;
+  }
+
+  /** Milliseconds per emulated frame. */
+  get frameTime(): number {
+    return 1000 / FRAME_RATES[this.standard];
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.#last = null;
+    this.#pending = 0;
+    this.#handle = this.scheduler.request(this.tick);
+  }
+
+  stop(): void {
+    if (this.#handle != null) this.scheduler.cancel(this.#handle);
+    this.#handle = null;
+  }
+
+  /** Runs whatever frames are due at `now` (in milliseconds). */
+  tick = (now: number): void => {
+    this.#handle = this.scheduler.request(this.tick);
+
+    this.#pending += now - (this.#last ?? now);
+    this.#last = now;
+    const due = Math.floor(this.#pending / this.frameTime);
+    this.#pending -= due * this.frameTime;
+
+    const count = Math.min(due, MainLoop.MAX_CATCH_UP);
+    this.skipped += due - count;
+    for (let i = 0; i < count; ++i) {
+      this.runFrame();
+      this.frames += 1;
+    }
+    if (count > 0) this.onDraw?.();
+  };
+}
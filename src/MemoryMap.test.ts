@@ -0,0 +1,119 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {CP1610} from "./cp1610";
+import {MemoryMap} from "./MemoryMap";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+
+describe("MemoryMap", () => {
+  test("decodes addresses into device offsets", () => {
+    const bus = new Bus();
+    const ram = new RAM(bus, 0x0100, 0x0200);
+    const memory = new MemoryMap(bus, [
+      {device: ram, start: 0x0100, end: 0x0200},
+    ]);
+    ram.data[0x10] = 0x1234;
+
+    expect(memory.owner(0x0110)?.device).toBe(ram);
+    expect(memory.decode(0x0110)).toEqual({device: ram, offset: 0x10});
+    expect(memory.debug_read(0x0110)).toBe(0x1234);
+    expect(memory.owner(0x00ff)).toBeNull();
+    expect(memory.owner(0x0200)).toBeNull();
+    expect(memory.debug_read(0x0200)).toBeNull();
+  });
+
+  test("rejects overlapping devices", () => {
+    const bus = new Bus();
+    const memory = new MemoryMap(bus).add(
+      new RAM(bus, 0x0100, 0x0200),
+      0x0100,
+      0x0200,
+    );
+
+    expect(() =>
+      memory.add(new ROM(bus, 0x01ff, new Uint16Array(2)), 0x01ff, 0x0201),
+    ).toThrowError("ROM at $01FF-$0200 overlaps RAM at $0100-$01FF");
+    // Nothing should have been mapped:
+    expect(memory.owner(0x0200)).toBeNull();
+  });
+
+  test("aliases and mirrors devices", () => {
+    const bus = new Bus();
+    const ram = new RAM(bus, 0x0000, 0x0040);
+    const memory = new MemoryMap(bus)
+      .add(ram, 0x0000, 0x0040)
+      // Alias the same device elsewhere, starting halfway into it:
+      .add(ram, 0x1000, 0x1020, 0x20)
+      .mirror(0x4000, 0x4040, 0x0000);
+    ram.data[0x21] = 0xbeef;
+
+    expect(memory.debug_read(0x0021)).toBe(0xbeef);
+    expect(memory.debug_read(0x1001)).toBe(0xbeef);
+    expect(memory.debug_read(0x4021)).toBe(0xbeef);
+    expect(memory.decode(0x4021)).toEqual({device: ram, offset: 0x21});
+  });
+
+  test("mirrors every region in the target range", () => {
+    const bus = new Bus();
+    const ram = new RAM(bus, 0x0000, 0x0010);
+    const rom = new ROM(bus, 0x0020, Uint16Array.from([0xaaaa, 0xbbbb]));
+    const memory = new MemoryMap(bus)
+      .add(ram, 0x0000, 0x0010)
+      .add(rom, 0x0020, 0x0022)
+      .mirror(0x8000, 0x8030, 0x0000);
+
+    expect(memory.owner(0x800f)?.device).toBe(ram);
+    expect(memory.owner(0x8010)).toBeNull();
+    expect(memory.debug_read(0x8021)).toBe(0xbbbb);
+    expect(memory.owner(0x8022)).toBeNull();
+  });
+
+  test("services CPU reads and writes", () => {
+    const bus = new Bus();
+    const cpu = new CP1610(bus);
+    const ram = new RAM(bus, 0x0000, 0x0100);
+    // prettier-ignore
+    const program = [
+      0x02b8, 0x0042, // MVII #$0042, R0
+      0x0240, 0x0050, // MVO R0, $0050
+      0x0281, 0x4050, // MVI $4050, R1
+      0x0000,         // HLT
+    ];
+    const memory = new MemoryMap(bus)
+      .add(ram, 0x0000, 0x0100)
+      .mirror(0x4000, 0x4100, 0x0000)
+      .add(
+        new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.from(program)),
+        CP1610.RESET_VECTOR,
+        CP1610.RESET_VECTOR + program.length,
+      );
+
+    for (let i = 0; i < 10_000 && !cpu.halted; ++i) {
+      bus.clock();
+      cpu.clock();
+      memory.clock();
+    }
+
+    expect(cpu.halted).toBe(true);
+    expect(ram.data[0x50]).toBe(0x0042);
+    expect(cpu.r[1]).toBe(0x0042);
+  });
+
+  test("ignores writes to ROM", () => {
+    const bus = new Bus();
+    const rom = new ROM(bus, 0x1000, Uint16Array.from([0x1234]));
+    const memory = new MemoryMap(bus).add(rom, 0x1000, 0x1001);
+
+    bus.data = 0x1000;
+    bus.flags = Bus.BAR;
+    for (let i = 0; i < 4; ++i) memory.clock();
+    bus.data = 0x5678;
+    bus.flags = Bus.DW;
+    for (let i = 0; i < 4; ++i) memory.clock();
+    bus.flags = Bus.DWS;
+    for (let i = 0; i < 4; ++i) memory.clock();
+
+    expect(memory.debug_read(0x1000)).toBe(0x1234);
+  });
+});
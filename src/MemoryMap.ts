@@ -0,0 +1,242 @@
+import {Bus, BusDevice} from "./Bus";
+import {StateReader, StateWriter} from "./SaveState";
+import {UnreachableCaseError} from "./UnreachableCaseError";
+import {trace} from "./trace";
+
+/**
+ * Something that can be mapped into the address space by a `MemoryMap`.
+ *
+ * Offsets are relative to the device, not the bus; the map takes care of
+ * translating addresses before calling in.
+ */
+export interface MemoryDevice {
+  name?: string;
+  /**
+   * Returns the word at `offset`, or null if the device doesn't drive the bus
+   * there. This is also used for `debug_read`, so it shouldn't have side
+   * effects.
+   */
+  read(offset: number): number | null;
+  /**
+   * Like `read`, but only called for reads actually made on the bus, for
+   * devices where those have side effects. Defaults to `read`.
+   */
+  busRead?(offset: number): number | null;
+  write(offset: number, data: number): void;
+  /** Called while RESET is asserted, for devices with state to reset. */
+  reset?(): void;
+  /** See `Stateful`; devices without these can't be saved. */
+  saveState?(writer: StateWriter): void;
+  loadState?(reader: StateReader): void;
+}
+
+export type MemoryRegion = Readonly<{
+  device: MemoryDevice;
+  /** First address of the region. */
+  start: number;
+  /** Address just past the end of the region. */
+  end: number;
+  /** Device offset that `start` maps to. Defaults to 0. */
+  offset?: number;
+}>;
+
+const formatAddr = (addr: number) =>
+  "$" + addr.toString(16).padStart(4, "0").toUpperCase();
+
+/**
+ * Address decoder for the bus.
+ *
+ * Devices are registered with the address ranges they respond to, and the map
+ * handles the bus protocol (latching addresses on BAR/ADAR, asserting data on
+ * DTB/ADAR/IAB, and writing on DWS) on their behalf, so that a device only
+ * needs to know how to read and write its own words.
+ *
+ * Mapping the same device more than once aliases it; `mirror` repeats whatever
+ * is already mapped at one range in another.
+ *
+ * Like plain RAM, the map sees INTAK remapped to BAR.
+ */
+export class MemoryMap implements BusDevice {
+  static ADDRESS_SPACE = 0x10000;
+
+  name: string = "Memory Map";
+  bus: Bus;
+  regions: Required<MemoryRegion>[] = [];
+  ticks: number = 0;
+
+  /** Index into `regions` for every address, or -1 if it's unmapped. */
+  _owners: Int32Array = new Int32Array(MemoryMap.ADDRESS_SPACE).fill(-1);
+  _addr: number | null = null;
+
+  constructor(bus: Bus, regions: ReadonlyArray<MemoryRegion> = []) {
+    this.bus = bus;
+    for (const {device, start, end, offset} of regions) {
+      this.add(device, start, end, offset);
+    }
+  }
+
+  /**
+   * Maps `device` at addresses `start` up to (but not including) `end`.
+   *
+   * Throws if any of the addresses are already mapped.
+   */
+  add(device: MemoryDevice, start: number, end: number, offset = 0): this {
+    if (start < 0 || end > MemoryMap.ADDRESS_SPACE || start >= end) {
+      throw new Error(
+        `Invalid range ${formatAddr(start)}-${formatAddr(end - 1)}`,
+      );
+    }
+
+    for (let addr = start; addr < end; ++addr) {
+      const owner = this.owner(addr);
+      if (owner == null) continue;
+      throw new Error(
+        `${device.name ?? "Device"} at ${formatAddr(start)}-${formatAddr(
+          end - 1,
+        )} overlaps ${owner.device.name ?? "device"} at ${formatAddr(
+          owner.start,
+        )}-${formatAddr(owner.end - 1)}`,
+      );
+    }
+
+    const index = this.regions.push({device, start, end, offset}) - 1;
+    this._owners.fill(index, start, end);
+    return this;
+  }
+
+  /**
+   * Makes addresses `start` up to (but not including) `end` respond like the
+   * addresses starting at `target`.
+   *
+   * Only what's mapped at `target` when this is called gets mirrored; unmapped
+   * addresses in the target range stay unmapped here too.
+   */
+  mirror(start: number, end: number, target: number): this {
+    if (target < 0 || target + (end - start) > MemoryMap.ADDRESS_SPACE) {
+      throw new Error(`Invalid mirror target ${formatAddr(target)}`);
+    }
+
+    // Mirror each region overlapping the target range separately:
+    let addr = start;
+    while (addr < end) {
+      const region = this.owner(target + (addr - start));
+      if (region == null) {
+        addr += 1;
+        continue;
+      }
+      const regionStart = addr;
+      const regionOffset =
+        region.offset + (target + (addr - start) - region.start);
+      while (addr < end && this.owner(target + (addr - start)) === region) {
+        addr += 1;
+      }
+      this.add(region.device, regionStart, addr, regionOffset);
+    }
+    return this;
+  }
+
+  /** Every device mapped, once each, in the order they were added. */
+  get devices(): MemoryDevice[] {
+    return [...new Set(this.regions.map(({device}) => device))];
+  }
+
+  /** Returns the region mapped at `addr`, if any. */
+  owner(addr: number): Required<MemoryRegion> | null {
+    return this.regions[this._owners[addr] ?? -1] ?? null;
+  }
+
+  /** Translates `addr` into the owning device and its offset within it. */
+  decode(addr: number): {device: MemoryDevice; offset: number} | null {
+    const region = this.owner(addr);
+    if (region == null) return null;
+    return {device: region.device, offset: region.offset + addr - region.start};
+  }
+
+  debug_read(addr: number): number | null {
+    const decoded = this.decode(addr);
+    if (decoded == null) return null;
+    return decoded.device.read(decoded.offset);
+  }
+
+  _readAndDecodeAddr() {
+    this._addr = this.owner(this.bus.data) ? this.bus.data : null;
+  }
+
+  _assertDataAtAddrToBus() {
+    if (this._addr == null) return;
+
+    const decoded = this.decode(this._addr);
+    this._addr = null;
+    if (decoded == null) return;
+    const {device, offset} = decoded;
+    const data = device.busRead ? device.busRead(offset) : device.read(offset);
+    if (data == null) return;
+    this.bus.data = data;
+  }
+
+  _readDataOnBusToAddr() {
+    if (this._addr == null) return;
+
+    const decoded = this.decode(this._addr);
+    this._addr = null;
+    if (decoded == null) return;
+    trace(
+      `[${decoded.device.name ?? "MemoryMap"}] write $${this.bus.data
+        .toString(16)
+        .padStart(4, "0")} to offset $${decoded.offset
+        .toString(16)
+        .padStart(4, "0")}`,
+    );
+    decoded.device.write(decoded.offset, this.bus.data);
+  }
+
+  /** Just the map's own state; the devices in it are saved separately. */
+  saveState(writer: StateWriter): void {
+    writer.u8(this.ticks);
+    writer.nullable(this._addr);
+  }
+
+  loadState(reader: StateReader): void {
+    this.ticks = reader.u8();
+    this._addr = reader.nullable();
+  }
+
+  clock(): void {
+    this.ticks = (this.ticks + 1) % 4;
+    if (this.bus.reset) {
+      this._addr = null;
+      for (const device of this.devices) {
+        device.reset?.();
+      }
+      return;
+    }
+    switch (this.bus.flags) {
+      case Bus.BAR:
+      case Bus.INTAK: {
+        if (this.ticks === 3) return this._readAndDecodeAddr();
+        return;
+      }
+      case Bus.DTB:
+      case Bus.IAB: {
+        if (this.ticks === 1) return this._assertDataAtAddrToBus();
+        return;
+      }
+      case Bus.ADAR: {
+        if (this.ticks === 1) return this._assertDataAtAddrToBus();
+        if (this.ticks === 3) return this._readAndDecodeAddr();
+        return;
+      }
+      case Bus.DWS: {
+        if (this.ticks === 3) return this._readDataOnBusToAddr();
+        return;
+      }
+      case Bus.DW:
+      case Bus.___: {
+        return;
+      }
+      default: {
+        throw new UnreachableCaseError(this.bus.flags);
+      }
+    }
+  }
+}
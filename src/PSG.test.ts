@@ -0,0 +1,179 @@
+import {describe, expect, test} from "vitest";
+import {Bus} from "./Bus";
+import {PSG} from "./PSG";
+import {RingBuffer} from "./RingBuffer";
+
+const createPSG = (sampleRate?: number) => {
+  const bus = new Bus();
+  const psg = new PSG(bus, sampleRate);
+  const run = (ticks: number) => {
+    for (let i = 0; i < ticks; ++i) psg.clock();
+  };
+  const drain = () => {
+    const out = new Float32Array(psg.samples.length);
+    psg.samples.read(out);
+    return out;
+  };
+  return {bus, psg, run, drain};
+};
+
+/** Steps of the PSG's generators (16 master clock ticks each). */
+const steps = (count: number) => count * PSG.DIVIDER;
+
+describe("RingBuffer", () => {
+  test("reads back in order and overwrites the oldest when full", () => {
+    const buffer = new RingBuffer(3);
+    for (const sample of [1, 2, 3, 4]) buffer.push(sample);
+    expect(buffer.length).toBe(3);
+    expect(buffer.dropped).toBe(1);
+
+    const out = new Float32Array(4);
+    expect(buffer.read(out)).toBe(3);
+    expect([...out]).toEqual([2, 3, 4, 0]);
+    expect(buffer.length).toBe(0);
+  });
+});
+
+describe("PSG", () => {
+  test("masks registers to their implemented bits", () => {
+    const {psg} = createPSG();
+    psg.write(0x4, 0xffff);
+    psg.write(0x9, 0xff);
+    psg.write(0xb, 0xff);
+    expect(psg.read(0x4)).toBe(0xff0f);
+    expect(psg.read(0x9)).toBe(0xff1f);
+    expect(psg.read(0xb)).toBe(0xff3f);
+  });
+
+  test("I/O ports read their inputs unless set as outputs", () => {
+    const {psg} = createPSG();
+    psg.inputs[0] = 0x12;
+    psg.inputs[1] = 0x34;
+    psg.write(0xe, 0xaa);
+    psg.write(0xf, 0xbb);
+    expect(psg.read(0xe)! & 0xff).toBe(0x12);
+    expect(psg.read(0xf)! & 0xff).toBe(0x34);
+
+    psg.write(0x8, 0x80);
+    expect(psg.read(0xe)! & 0xff).toBe(0x12);
+    expect(psg.read(0xf)! & 0xff).toBe(0xbb);
+  });
+
+  test("clears every register on RESET", () => {
+    const {bus, psg, run} = createPSG();
+    psg.write(0x0, 0x12);
+    psg.write(0xb, 0xf);
+    bus.reset = true;
+    run(PSG.DIVIDER);
+    expect([...psg.registers]).toEqual(new Array(16).fill(0));
+    expect(psg.samples.length).toBe(0);
+  });
+
+  test("is silent with every channel at volume 0", () => {
+    const {psg, run, drain} = createPSG();
+    psg.write(0x8, 0x00);
+    run(PSG.CLOCK_RATE / 100);
+    const samples = drain();
+    expect(samples.length).toBeGreaterThan(0);
+    expect(samples.every((sample) => sample === 0)).toBe(true);
+  });
+
+  test("produces samples at the configured rate", () => {
+    const {psg, run} = createPSG(48_000);
+    run(PSG.CLOCK_RATE / 10);
+    expect(psg.samples.length).toBeGreaterThanOrEqual(4799);
+    expect(psg.samples.length).toBeLessThanOrEqual(4800);
+  });
+
+  test("tone channels toggle every period", () => {
+    // One sample per generator step, so we can see every edge:
+    const {psg, run, drain} = createPSG(PSG.CLOCK_RATE / PSG.DIVIDER);
+    psg.write(0x0, 4);
+    psg.write(0x8, 0b111110); // Tone A only
+    psg.write(0xb, 0xf);
+    run(steps(16));
+    const levels = [...drain()].map((sample) => (sample > 0 ? 1 : 0));
+    expect(levels).toEqual([0, 0, 0, 1, 1, 1, 1, 0, 0, 0, 0, 1, 1, 1, 1, 0]);
+  });
+
+  test("disabled channels hold high, at their volume", () => {
+    const {psg, run, drain} = createPSG();
+    psg.write(0x8, 0b111111);
+    psg.write(0xb, 0xf);
+    psg.write(0xc, 0xf);
+    run(steps(100));
+    const samples = drain();
+    expect(samples.at(-1)).toBeCloseTo(2 / 3);
+  });
+
+  test("noise channels are not just a square wave", () => {
+    const {psg, run, drain} = createPSG(PSG.CLOCK_RATE / PSG.DIVIDER);
+    psg.write(0x8, 0b110111); // Noise A only
+    psg.write(0x9, 1);
+    psg.write(0xb, 0xf);
+    run(steps(1000));
+    const levels = [...drain()].map((sample) => (sample > 0 ? 1 : 0));
+    const highs = levels.filter((level) => level === 1).length;
+    expect(highs).toBeGreaterThan(300);
+    expect(highs).toBeLessThan(700);
+    const runs = levels.filter((level, i) => level !== levels[i - 1]).length;
+    expect(runs).toBeLessThan(levels.length / 2);
+  });
+
+  describe("envelope", () => {
+    const envelope = (shape: number, stepCount: number) => {
+      const {psg, run} = createPSG();
+      psg.write(0x3, 1); // One envelope step per generator step
+      psg.write(0xa, shape);
+      const levels = [psg.envelope];
+      for (let i = 0; i < stepCount; ++i) {
+        run(steps(1));
+        levels.push(psg.envelope);
+      }
+      return levels;
+    };
+    const down = [15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 0];
+    const up = [...down].reverse();
+
+    test("decays then stays at 0 without continue", () => {
+      expect(envelope(0b0000, 20)).toEqual([...down, 0, 0, 0, 0, 0]);
+    });
+
+    test("attacks then drops to 0 without continue", () => {
+      expect(envelope(0b0100, 20)).toEqual([...up, 0, 0, 0, 0, 0]);
+    });
+
+    test("repeats a sawtooth", () => {
+      expect(envelope(0b1000, 31)).toEqual([...down, ...down]);
+    });
+
+    test("alternates into a triangle", () => {
+      expect(envelope(0b1110, 31)).toEqual([...up, ...down]);
+    });
+
+    test("holds at the end of an attack", () => {
+      expect(envelope(0b1101, 20)).toEqual([...up, 15, 15, 15, 15, 15]);
+    });
+
+    test("holds at the opposite end when alternating", () => {
+      expect(envelope(0b1011, 20)).toEqual([...down, 15, 15, 15, 15, 15]);
+      expect(envelope(0b1111, 20)).toEqual([...up, 0, 0, 0, 0, 0]);
+    });
+
+    test("drives channels in envelope mode, scaled down", () => {
+      const {psg, run, drain} = createPSG(PSG.CLOCK_RATE / PSG.DIVIDER);
+      psg.write(0x7, 1); // A slow envelope
+      psg.write(0xa, 0b1101); // Attack and hold at 15
+      psg.write(0x8, 0b111111);
+      psg.write(0xb, 0x10);
+      psg.write(0xc, 0x20);
+      psg.write(0xd, 0x30);
+      run(steps(16 * 256 + 1));
+      drain();
+      run(steps(1));
+      const [sample] = drain();
+      // Levels 15, 7 and 3:
+      expect(sample).toBeCloseTo((1 + Math.pow(2, -4) + Math.pow(2, -6)) / 3);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {Bus, BusDevice} from "./Bus";
+import {MemoryDevice, MemoryRegion} from "./MemoryMap";
+import {RingBuffer} from "./RingBuffer";
+import {StateReader, StateWriter} from "./SaveState";
+
+/** Bits of each register which are actually implemented. */
+// prettier-ignore
+const REGISTER_MASKS = [
+  /* $1F0-$1F2 tone period, low */  0xff, 0xff, 0xff,
+  /* $1F3 envelope period, low */   0xff,
+  /* $1F4-$1F6 tone period, high */ 0x0f, 0x0f, 0x0f,
+  /* $1F7 envelope period, high */  0xff,
+  /* $1F8 enables */                0xff,
+  /* $1F9 noise period */           0x1f,
+  /* $1FA envelope shape */         0x0f,
+  /* $1FB-$1FD volume */            0x3f, 0x3f, 0x3f,
+  /* $1FE-$1FF I/O ports */         0xff, 0xff,
+];
+
+const ENVELOPE_HOLD = 0b0001;
+const ENVELOPE_ALTERNATE = 0b0010;
+const ENVELOPE_ATTACK = 0b0100;
+const ENVELOPE_CONTINUE = 0b1000;
+
+/**
+ * Output level for each volume, roughly 3dB apart as on the real chip, with 0
+ * being silent.
+ */
+const LEVELS = Array.from({length: 16}, (_, volume) =>
+  volume === 0 ? 0 : Math.pow(2, (volume - 15) / 2),
+);
+
+/**
+ * AY-3-8914 Programmable Sound Generator
+ *
+ * Three square wave tone channels, a noise generator and an envelope generator
+ * mixed into one output, plus the two 8-bit I/O ports the hand controllers are
+ * wired to. Registers live at $01F0-$01FF (unless moved with `start`), and are
+ * ordered differently from the better-known AY-3-8910's:
+ *
+ * - $1F0-$1F2: channel A-C tone period, low 8 bits
+ * - $1F3: envelope period, low 8 bits
+ * - $1F4-$1F6: channel A-C tone period, high 4 bits
+ * - $1F7: envelope period, high 8 bits
+ * - $1F8: enables: bits 0-2 tone A-C, bits 3-5 noise A-C (both active low),
+ *   bits 6-7 I/O port $1FE/$1FF direction (1 = output)
+ * - $1F9: noise period
+ * - $1FA: envelope shape: bit 0 hold, 1 alternate, 2 attack, 3 continue
+ * - $1FB-$1FD: channel A-C volume: bits 0-3 volume; bits 4-5 use the envelope
+ *   instead, at full, half, or quarter volume
+ * - $1FE-$1FF: I/O ports
+ *
+ * The PSG is clocked off the same 3.579545 MHz master clock as the bus, and
+ * its generators count down once every 16 ticks of it. Output is averaged down
+ * to `sampleRate` and pushed into `samples`, in the range 0 to 1.
+ */
+export class PSG implements BusDevice, MemoryDevice {
+  static START = 0x01f0;
+  static END = 0x0200;
+  /** Ticks of the master clock per second. */
+  static CLOCK_RATE = 3_579_545;
+  /** Master clock ticks per generator step. */
+  static DIVIDER = 16;
+
+  name: string = "PSG";
+  bus: Bus;
+  registers: Uint8Array = new Uint8Array(16);
+  /**
+   * What's driving each I/O port from outside ($1FE, then $1FF). Read back
+   * when a port is set as an input. Unconnected lines are pulled high.
+   */
+  inputs: Uint8Array = new Uint8Array([0xff, 0xff]);
+
+  sampleRate: number;
+  /** Master clock rate; faster on PAL machines. */
+  clockRate: number = PSG.CLOCK_RATE;
+  samples: RingBuffer;
+
+  _ticks: number = 0;
+
+  #toneCounters: number[] = [0, 0, 0];
+  #toneOutputs: number[] = [0, 0, 0];
+  #noiseCounter: number = 0;
+  /** 17-bit LFSR, as on the AY-3-8910. */
+  #noiseShift: number = 1;
+  #envelopeCounter: number = 0;
+  #envelopeStep: number = 0;
+  #envelopeHolding: boolean = false;
+  #envelopeAttack: boolean = false;
+
+  #sampleTotal: number = 0;
+  #sampleCount: number = 0;
+  #samplePhase: number = 0;
+
+  /** Where the registers are mapped; the ECS has a second PSG at $00F0. */
+  start: number;
+
+  constructor(
+    bus: Bus,
+    sampleRate: number = 44_100,
+    bufferSize = 8192,
+    start: number = PSG.START,
+  ) {
+    this.bus = bus;
+    this.start = start;
+    this.sampleRate = sampleRate;
+    this.samples = new RingBuffer(bufferSize);
+  }
+
+  regions(): MemoryRegion[] {
+    return [
+      {device: this, start: this.start, end: this.start + PSG.END - PSG.START},
+    ];
+  }
+
+  /** Envelope output, 0-15. */
+  get envelope(): number {
+    return this.#envelopeAttack ? this.#envelopeStep : 15 - this.#envelopeStep;
+  }
+
+  read(offset: number): number | null {
+    const mask = REGISTER_MASKS[offset];
+    if (mask == null) return null;
+    let data = this.registers[offset]!;
+    const port = offset - 0xe;
+    if (port >= 0 && !this.#isOutput(port)) data = this.inputs[port]!;
+    return (data & mask) | (Bus.FLOATING & 0xff00);
+  }
+
+  write(offset: number, data: number): void {
+    const mask = REGISTER_MASKS[offset];
+    if (mask == null) return;
+    this.registers[offset] = data & mask;
+    if (offset === 0xa) {
+      // Writing the shape restarts the envelope:
+      this.#envelopeStep = 0;
+      this.#envelopeCounter = 0;
+      this.#envelopeHolding = false;
+      this.#envelopeAttack = (data & ENVELOPE_ATTACK) !== 0;
+    }
+  }
+
+  clock(): void {
+    this._ticks = (this._ticks + 1) % PSG.DIVIDER;
+    if (this._ticks !== 0) return;
+    // Keep producing (silent) samples through a reset, so audio doesn't skip:
+    if (this.bus.reset) this.reset();
+
+    this.#step();
+    this.#sampleTotal += this.#output();
+    this.#sampleCount += 1;
+    this.#samplePhase += this.sampleRate;
+    if (this.#samplePhase >= this.clockRate / PSG.DIVIDER) {
+      this.#samplePhase -= this.clockRate / PSG.DIVIDER;
+      this.samples.push(this.#sampleTotal / this.#sampleCount);
+      this.#sampleTotal = 0;
+      this.#sampleCount = 0;
+    }
+  }
+
+  /** Clears every register, silencing all channels. */
+  reset(): void {
+    this.registers.fill(0);
+    this.#toneCounters.fill(0);
+    this.#toneOutputs.fill(0);
+    this.#noiseCounter = 0;
+    this.#noiseShift = 1;
+    this.#envelopeCounter = 0;
+    this.#envelopeStep = 0;
+    this.#envelopeHolding = false;
+    this.#envelopeAttack = false;
+  }
+
+  /**
+   * `inputs` belong to the hand controllers, and `samples` to whoever's
+   * playing them, so neither is saved.
+   */
+  saveState(writer: StateWriter): void {
+    writer.u8(this._ticks);
+    writer.u8Array(this.registers);
+    writer.u16Array(this.#toneCounters);
+    writer.u16Array(this.#toneOutputs);
+    writer.u32(this.#noiseCounter);
+    writer.u32(this.#noiseShift);
+    writer.u32(this.#envelopeCounter);
+    writer.u8(this.#envelopeStep);
+    writer.bool(this.#envelopeHolding);
+    writer.bool(this.#envelopeAttack);
+    writer.f64(this.#sampleTotal);
+    writer.u32(this.#sampleCount);
+    writer.f64(this.#samplePhase);
+  }
+
+  loadState(reader: StateReader): void {
+    this._ticks = reader.u8();
+    reader.u8Array(this.registers);
+    reader.u16Array(this.#toneCounters);
+    reader.u16Array(this.#toneOutputs);
+    this.#noiseCounter = reader.u32();
+    this.#noiseShift = reader.u32();
+    this.#envelopeCounter = reader.u32();
+    this.#envelopeStep = reader.u8();
+    this.#envelopeHolding = reader.bool();
+    this.#envelopeAttack = reader.bool();
+    this.#sampleTotal = reader.f64();
+    this.#sampleCount = reader.u32();
+    this.#samplePhase = reader.f64();
+  }
+
+  debug_read(_addr: number): number | null {
+    return null;
+  }
+
+  #isOutput(port: number): boolean {
+    return (this.registers[0x8]! & (0x40 << port)) !== 0;
+  }
+
+  #step(): void {
+    const r = this.registers;
+
+    for (let channel = 0; channel < 3; ++channel) {
+      // Periods of 0 act like 1:
+      const period = Math.max(1, r[channel]! | (r[0x4 + channel]! << 8));
+      this.#toneCounters[channel]! += 1;
+      if (this.#toneCounters[channel]! >= period) {
+        this.#toneCounters[channel] = 0;
+        this.#toneOutputs[channel]! ^= 1;
+      }
+    }
+
+    // Noise runs at half the rate of the tone generators:
+    this.#noiseCounter += 1;
+    if (this.#noiseCounter >= Math.max(1, r[0x9]!) * 2) {
+      this.#noiseCounter = 0;
+      const bit = (this.#noiseShift ^ (this.#noiseShift >> 3)) & 1;
+      this.#noiseShift = (this.#noiseShift >> 1) | (bit << 16);
+    }
+
+    this.#envelopeCounter += 1;
+    if (this.#envelopeCounter >= Math.max(1, r[0x3]! | (r[0x7]! << 8))) {
+      this.#envelopeCounter = 0;
+      this.#stepEnvelope();
+    }
+  }
+
+  #stepEnvelope(): void {
+    if (this.#envelopeHolding) return;
+    if (this.#envelopeStep < 15) {
+      this.#envelopeStep += 1;
+      return;
+    }
+
+    const shape = this.registers[0xa]!;
+    if (!(shape & ENVELOPE_CONTINUE)) {
+      // Drop to (and stay at) zero:
+      this.#envelopeHolding = true;
+      this.#envelopeAttack = false;
+      return;
+    }
+    if (shape & ENVELOPE_HOLD) {
+      // Stay at the level this cycle ended on, or the opposite one:
+      this.#envelopeHolding = true;
+      if (shape & ENVELOPE_ALTERNATE) {
+        this.#envelopeAttack = !this.#envelopeAttack;
+      }
+      return;
+    }
+    if (shape & ENVELOPE_ALTERNATE) {
+      this.#envelopeAttack = !this.#envelopeAttack;
+    }
+    this.#envelopeStep = 0;
+  }
+
+  #output(): number {
+    const r = this.registers;
+    const enables = r[0x8]!;
+    const noise = this.#noiseShift & 1;
+    let total = 0;
+
+    for (let channel = 0; channel < 3; ++channel) {
+      const toneOff = (enables >> channel) & 1;
+      const noiseOff = (enables >> (3 + channel)) & 1;
+      const on = (this.#toneOutputs[channel]! | toneOff) & (noise | noiseOff);
+      if (!on) continue;
+
+      const volume = r[0xb + channel]!;
+      const envelopeMode = (volume >> 4) & 0x3;
+      const level =
+        envelopeMode === 0 ? volume & 0xf : this.envelope >> (envelopeMode - 1);
+      total += LEVELS[level]!;
+    }
+
+    return total / 3;
+  }
+}
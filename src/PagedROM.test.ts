@@ -0,0 +1,74 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {CP1610} from "./cp1610";
+import {MemoryMap} from "./MemoryMap";
+import {PagedROM} from "./PagedROM";
+import {RAM} from "./RAM";
+
+describe("PagedROM", () => {
+  test("flips pages on $xA5y writes to $xFFF", () => {
+    const rom = new PagedROM(0x5);
+    rom.load(0, 0, Uint16Array.from([0x0000]));
+    rom.load(3, 0, Uint16Array.from([0x0333]));
+
+    expect(rom.read(0)).toBe(0x0000);
+    rom.write(0x0fff, 0x5a53);
+    expect(rom.page).toBe(3);
+    expect(rom.read(0)).toBe(0x0333);
+
+    // Pages without data don't drive the bus:
+    rom.write(0x0fff, 0x5a52);
+    expect(rom.read(0)).toBeNull();
+
+    // Writes for other segments, to other addresses, or of other values are
+    // ignored:
+    rom.write(0x0fff, 0x6a50);
+    rom.write(0x0ffe, 0x5a50);
+    rom.write(0x0fff, 0x5b50);
+    expect(rom.page).toBe(2);
+  });
+
+  test("is paged by the CPU through a MemoryMap", () => {
+    const bus = new Bus();
+    const cpu = new CP1610(bus);
+    // prettier-ignore
+    const program = [
+      0x0280, 0x7000, // MVI $7000,R0
+      0x02b9, 0x7a51, // MVII #$7A51,R1
+      0x0241, 0x7fff, // MVO R1,$7FFF
+      0x0282, 0x7000, // MVI $7000,R2
+      0x0000,         // HLT
+    ];
+    const paged = new PagedROM(0x7);
+    paged.load(0, 0, Uint16Array.from([0xaaaa]));
+    paged.load(1, 0, Uint16Array.from([0xbbbb]));
+    const rom = new RAM(bus, CP1610.RESET_VECTOR, CP1610.RESET_VECTOR + 9);
+    rom.data.set(program);
+    const memory = new MemoryMap(bus)
+      .add(rom, CP1610.RESET_VECTOR, CP1610.RESET_VECTOR + 9)
+      .add(paged, 0x7000, 0x8000);
+
+    for (let i = 0; i < 10_000 && !cpu.halted; ++i) {
+      bus.clock();
+      cpu.clock();
+      memory.clock();
+    }
+
+    expect(cpu.halted).toBe(true);
+    expect(cpu.r[0]).toBe(0xaaaa);
+    expect(cpu.r[2]).toBe(0xbbbb);
+  });
+
+  test("flips back to page 0 on RESET", () => {
+    const bus = new Bus();
+    const paged = new PagedROM(0x7);
+    const memory = new MemoryMap(bus).add(paged, 0x7000, 0x8000);
+    paged.page = 5;
+
+    bus.reset = true;
+    bus.clock();
+    memory.clock();
+    expect(paged.page).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import {Bus} from "./Bus";
+import {MemoryDevice} from "./MemoryMap";
+import {DataWidth, UNUSED_BITS} from "./RAM";
+import {SaveStateError, StateReader, StateWriter, checksum} from "./SaveState";
+
+/**
+ * ROM with up to 16 pages sharing one 4K segment of the address space, as used
+ * by the ECS and larger cartridges.
+ *
+ * Pages are flipped by writing $xA5y to $xFFF, where x is the segment (the
+ * upper nibble of its address) and y is the page to make visible. Nothing is
+ * driven onto the bus while a page with no data is selected.
+ *
+ * This is only a `MemoryDevice`; map it over the whole segment with a
+ * `MemoryMap` so that it sees the page-select writes.
+ */
+export class PagedROM implements MemoryDevice {
+  static PAGE_SIZE = 0x1000;
+  static PAGE_COUNT = 16;
+
+  name: string = "Paged ROM";
+  /** Which 4K segment this lives in, i.e. its address is `segment << 12`. */
+  segment: number;
+  width: DataWidth;
+  mask: number;
+  pages: (Uint16Array | null)[] = new Array(PagedROM.PAGE_COUNT).fill(null);
+  /** Currently visible page. */
+  page: number = 0;
+
+  constructor(segment: number, width: DataWidth = 16) {
+    if (segment < 0 || segment > 0xf) {
+      throw new Error(`Invalid segment ${segment}`);
+    }
+    this.segment = segment;
+    this.width = width;
+    this.mask = (1 << width) - 1;
+  }
+
+  get start(): number {
+    return this.segment * PagedROM.PAGE_SIZE;
+  }
+
+  /** Copies `data` into `page`, `offset` words into the segment. */
+  load(page: number, offset: number, data: Uint16Array): void {
+    if (page < 0 || page >= PagedROM.PAGE_COUNT) {
+      throw new Error(`Invalid page ${page}`);
+    }
+    if (offset < 0 || offset + data.length > PagedROM.PAGE_SIZE) {
+      throw new Error(`Data doesn't fit in a ${PagedROM.PAGE_SIZE}-word page`);
+    }
+    const pageData = (this.pages[page] ??= new Uint16Array(
+      PagedROM.PAGE_SIZE,
+    ).fill(Bus.FLOATING));
+    pageData.set(data, offset);
+  }
+
+  read(offset: number): number | null {
+    const data = this.pages[this.page]?.[offset];
+    if (data == null) return null;
+    return (data & this.mask) | UNUSED_BITS[this.width];
+  }
+
+  reset(): void {
+    this.page = 0;
+  }
+
+  /** Like `ROM`, only a checksum of the pages is saved. */
+  saveState(writer: StateWriter): void {
+    writer.u8(this.page);
+    writer.u32(this.#checksum());
+  }
+
+  loadState(reader: StateReader): void {
+    this.page = reader.u8() & 0xf;
+    const offset = reader.offset;
+    if (reader.u32() !== this.#checksum()) {
+      throw new SaveStateError(offset, `${this.name} contents don't match`);
+    }
+  }
+
+  write(offset: number, data: number): void {
+    if (offset !== PagedROM.PAGE_SIZE - 1) return;
+    if ((data & 0xfff0) !== ((this.segment << 12) | 0x0a50)) return;
+    this.page = data & 0x000f;
+  }
+
+  #checksum(): number {
+    return this.pages.reduce<number>(
+      (hash, page, i) => (page ? checksum(page, checksum([i], hash)) : hash),
+      checksum([this.segment]),
+    );
+  }
+}
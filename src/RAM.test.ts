@@ -0,0 +1,60 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {CP1610} from "./cp1610";
+import {MemoryMap} from "./MemoryMap";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+
+describe("data width", () => {
+  test("16-bit RAM stores whole words", () => {
+    const ram = new RAM(new Bus(), 0x0000, 0x0010);
+    ram.write(0, 0x1234);
+    expect(ram.read(0)).toBe(0x1234);
+  });
+
+  test("8-bit RAM truncates writes and floats its upper bits", () => {
+    const ram = new RAM(new Bus(), 0x0100, 0x01f0, 8);
+    ram.write(0, 0x1234);
+    expect(ram.data[0]).toBe(0x0034);
+    expect(ram.read(0)).toBe(0xff34);
+    expect(ram.debug_read(0x0100)).toBe(0xff34);
+  });
+
+  test("10-bit ROM ignores the upper bits of its image, and reads them as 0", () => {
+    const rom = new ROM(new Bus(), 0x5000, Uint16Array.from([0xfc12]), 10);
+    expect(rom.read(0)).toBe(0x0012);
+    const clean = new ROM(new Bus(), 0x5000, Uint16Array.from([0x0012]), 10);
+    expect(clean.read(0)).toBe(0x0012);
+  });
+
+  test("the CPU sees the floating bits when reading 8-bit RAM", () => {
+    const bus = new Bus();
+    const cpu = new CP1610(bus);
+    const scratchpad = new RAM(bus, 0x0100, 0x01f0, 8);
+    // prettier-ignore
+    const program = [
+      0x02b8, 0x0234, // MVII #$0234,R0
+      0x0240, 0x0100, // MVO R0,$0100
+      0x0281, 0x0100, // MVI $0100,R1
+      0x0000,         // HLT
+    ];
+    const memory = new MemoryMap(bus)
+      .add(scratchpad, 0x0100, 0x01f0)
+      .add(
+        new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.from(program)),
+        CP1610.RESET_VECTOR,
+        CP1610.RESET_VECTOR + program.length,
+      );
+
+    for (let i = 0; i < 10_000 && !cpu.halted; ++i) {
+      bus.clock();
+      cpu.clock();
+      memory.clock();
+    }
+
+    expect(cpu.halted).toBe(true);
+    expect(scratchpad.data[0]).toBe(0x0034);
+    expect(cpu.r[1]).toBe(0xff34);
+  });
+});
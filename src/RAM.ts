@@ -1,26 +1,81 @@
 import {Bus, BusDevice} from "./Bus";
 import {UnreachableCaseError} from "./UnreachableCaseError";
+import {MemoryDevice} from "./MemoryMap";
+import {StateReader, StateWriter} from "./SaveState";
 import {trace} from "./trace";
 
-export class RAM implements BusDevice {
+/**
+ * Number of data lines a memory device is connected to. The rest of the bus
+ * is ignored when it's written, and reads as `UNUSED_BITS[width]`.
+ *
+ * e.g. the Intellivision's scratchpad RAM, GRAM, and GROM are 8 bits wide, and
+ * the EXEC and most cartridge ROMs are 10 bits wide.
+ */
+export type DataWidth = 8 | 10 | 16;
+
+/**
+ * What the lines a device of each width isn't connected to read as.
+ *
+ * The upper byte of an 8-bit device reads as the floating bus value, but the
+ * upper six bits of a 10-bit ROM read as 0s: the immediate operands, direct
+ * addresses, and branch offsets in 10-bit code (the whole EXEC, for one) only
+ * work with them clear. The CPU can't mask them itself, as direct addresses go
+ * from the ROM to the other devices in ADAR without passing through it.
+ */
+// prettier-ignore
+export const UNUSED_BITS: Readonly<Record<DataWidth, number>> = {
+  8: Bus.FLOATING & 0xff00,
+  10: 0x0000,
+  16: 0x0000,
+};
+
+export class RAM implements BusDevice, MemoryDevice {
   data: Uint16Array;
   start: number;
+  width: DataWidth;
+  /** Bits of the bus this device drives. */
+  mask: number;
+  /** Bits of the bus this device doesn't drive that read as 1s. */
+  unused: number;
   _addr: number | null = null;
   bus: Bus;
   ticks: number = 0;
   name: string = "RAM";
 
-  constructor(bus: Bus, start: number, end: number) {
+  constructor(bus: Bus, start: number, end: number, width: DataWidth = 16) {
     this.bus = bus;
     this.start = start;
+    this.width = width;
+    this.mask = (1 << width) - 1;
+    this.unused = UNUSED_BITS[width];
     this.data = new Uint16Array(end - start);
   }
 
-  debug_read(addrIn: number): number | null {
-    const addr = addrIn - this.start;
-    const data = this.data[addr];
+  read(offset: number): number | null {
+    const data = this.data[offset];
     if (data == null) return null;
-    return data;
+    return (data & this.mask) | this.unused;
+  }
+
+  write(offset: number, data: number): void {
+    if (offset < 0 || offset >= this.data.length) return;
+    this.data[offset] = data & this.mask;
+  }
+
+  debug_read(addrIn: number): number | null {
+    return this.read(addrIn - this.start);
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.u8(this.ticks);
+    writer.nullable(this._addr);
+    writer.u16Array(this.data);
+  }
+
+  loadState(reader: StateReader): void {
+    this.ticks = reader.u8();
+    this._addr = reader.nullable();
+    reader.u16Array(this.data);
   }
 
   _readAndDecodeAddr() {
@@ -45,7 +100,7 @@ export class RAM implements BusDevice {
   _assertDataAtAddrToBus() {
     if (this._addr == null) return;
 
-    const data = this.data[this._addr];
+    const data = this.read(this._addr);
     if (data == null) return;
     trace(
       `[${this.name}] this.bus.data = $${data
@@ -61,12 +116,16 @@ export class RAM implements BusDevice {
   _readDataOnBusToAddr() {
     if (this._addr == null) return;
 
-    this.data[this._addr] = this.bus.data;
+    this.write(this._addr, this.bus.data);
   }
 
   clock(): void {
     // trace(this.name);
     this.ticks = (this.ticks + 1) % 4;
+    if (this.bus.reset) {
+      this._addr = null;
+      return;
+    }
 
     switch (this.bus.flags) {
       case Bus.BAR: {
@@ -112,7 +171,12 @@ export class RAM implements BusDevice {
         // being written is available for external memories to latch. The
         // CP-1600 allows two full CPU cycles for external RAM to latch the
         // data.
-        if (this.ticks === 3) return this._readDataOnBusToAddr();
+        if (this.ticks === 3) {
+          this._readDataOnBusToAddr();
+          // Like reads, a write completes the access; forget the address so we
+          // don't respond to a later IAB phase with stale data:
+          this._addr = null;
+        }
         return;
       }
       case Bus.IAB: {
@@ -136,6 +200,10 @@ export class RAM implements BusDevice {
         // current address. For all other devices in the system, INTAK is
         // remapped to BAR by some discrete logic, and so is processed as a
         // normal addressing cycle elsewhere.
+        //
+        // Plain RAM sees INTAK remapped to BAR, so we latch the address just
+        // like we would for BAR (see `SystemRAM` for the real thing):
+        if (this.ticks === 3) return this._readAndDecodeAddr();
         return;
       }
       case Bus.___: {
@@ -1,17 +1,46 @@
 import {Bus} from "./Bus";
-import {RAM} from "./RAM";
+import {DataWidth, RAM} from "./RAM";
+import {SaveStateError, StateReader, StateWriter, checksum} from "./SaveState";
 
 export class ROM extends RAM {
   name: string = "ROM";
 
-  constructor(bus: Bus, start: number, data: Uint16Array) {
-    super(bus, start, start + data.length);
+  /**
+   * Note that `data` is used as-is; any bits above `width` are ignored when
+   * it's read.
+   */
+  constructor(
+    bus: Bus,
+    start: number,
+    data: Uint16Array,
+    width: DataWidth = 16,
+  ) {
+    super(bus, start, start + data.length, width);
     // Marginally wasteful since we throw out the original `data` - yeah yeah,
     // OOP is bad yadda yadda
     this.data = data;
   }
 
-  _readDataOnBusToAddr() {
+  /**
+   * The contents never change, so only a checksum of them is saved, to catch
+   * loading a state saved with a different ROM.
+   */
+  saveState(writer: StateWriter): void {
+    writer.u8(this.ticks);
+    writer.nullable(this._addr);
+    writer.u32(checksum(this.data));
+  }
+
+  loadState(reader: StateReader): void {
+    this.ticks = reader.u8();
+    this._addr = reader.nullable();
+    const offset = reader.offset;
+    if (reader.u32() !== checksum(this.data)) {
+      throw new SaveStateError(offset, `${this.name} contents don't match`);
+    }
+  }
+
+  write(_offset: number, _data: number): void {
     // Do nothing. Hence, read-only.
   }
 }
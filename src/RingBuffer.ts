@@ -0,0 +1,68 @@
+/**
+ * Fixed-size FIFO of samples. When full, the oldest samples are overwritten,
+ * so a slow consumer hears a skip rather than falling further and further
+ * behind.
+ */
+export class RingBuffer {
+  data: Float32Array;
+  /** Number of samples lost to overflow. */
+  dropped: number = 0;
+
+  _read: number = 0;
+  _write: number = 0;
+  _length: number = 0;
+
+  constructor(capacity: number) {
+    this.data = new Float32Array(capacity);
+  }
+
+  get capacity(): number {
+    return this.data.length;
+  }
+
+  /** Number of samples waiting to be read. */
+  get length(): number {
+    return this._length;
+  }
+
+  push(sample: number): void {
+    this.data[this._write] = sample;
+    this._write = (this._write + 1) % this.capacity;
+    if (this._length === this.capacity) {
+      this._read = (this._read + 1) % this.capacity;
+      this.dropped += 1;
+    } else {
+      this._length += 1;
+    }
+  }
+
+  /** Fills `out` with as many samples as are available; returns how many. */
+  read(out: Float32Array): number {
+    const count = Math.min(out.length, this._length);
+    for (let i = 0; i < count; ++i) {
+      out[i] = this.data[this._read]!;
+      this._read = (this._read + 1) % this.capacity;
+    }
+    this._length -= count;
+    return count;
+  }
+
+  /** The sample `index` places after the oldest one, without reading it. */
+  peek(index: number): number {
+    if (index >= this._length) return 0;
+    return this.data[(this._read + index) % this.capacity]!;
+  }
+
+  /** Discards up to `count` of the oldest samples. */
+  skip(count: number): void {
+    count = Math.min(count, this._length);
+    this._read = (this._read + count) % this.capacity;
+    this._length -= count;
+  }
+
+  clear(): void {
+    this._read = 0;
+    this._write = 0;
+    this._length = 0;
+  }
+}
@@ -0,0 +1,353 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {CP1610} from "./cp1610";
+import {MemoryMap} from "./MemoryMap";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+import {STIC} from "./STIC";
+
+const createSTIC = (program: number[] = []) => {
+  const bus = new Bus();
+  const memory = new MemoryMap(bus);
+  const stic = new STIC(bus, memory);
+  const backtab = new RAM(bus, STIC.BACKTAB, STIC.BACKTAB + 0xf0);
+  const grom = new RAM(bus, STIC.GROM, STIC.GROM + 0x800, 8);
+  const gram = new RAM(bus, STIC.GRAM, STIC.GRAM + 0x200, 8);
+  memory
+    .add(backtab, backtab.start, backtab.start + 0xf0)
+    .add(grom, grom.start, grom.start + 0x800)
+    .add(gram, gram.start, gram.start + 0x200);
+  for (const {start, end} of stic.regions()) memory.add(stic, start, end);
+  if (program.length > 0) {
+    memory.add(
+      new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.from(program)),
+      CP1610.RESET_VECTOR,
+      CP1610.RESET_VECTOR + program.length,
+    );
+  }
+
+  // Card 1 in GROM and card 2 in GRAM are half-filled vertically:
+  grom.data.fill(0xf0, 8, 16);
+  gram.data.fill(0x0f, 16, 24);
+
+  /** Palette index of a pixel in the picture (i.e. inside the border). */
+  const pixel = (x: number, y: number) =>
+    stic.framebuffer[(y + STIC.BORDER) * 2 * STIC.WIDTH + x + STIC.BORDER];
+
+  /**
+   * Part of the frame as text, one hex digit per pixel and one line per
+   * scanline, in picture coordinates.
+   */
+  const snapshot = (x: number, y: number, width: number, height: number) =>
+    Array.from({length: height}, (_, line) =>
+      Array.from({length: width}, (_, column) =>
+        stic.framebuffer[
+          (STIC.BORDER * 2 + y + line) * STIC.WIDTH + STIC.BORDER + x + column
+        ]!.toString(16),
+      ).join(""),
+    );
+
+  return {bus, memory, stic, backtab, grom, gram, pixel, snapshot};
+};
+
+describe("STIC", () => {
+  test("draws Color Stack mode cards", () => {
+    const {stic, backtab, pixel} = createSTIC();
+    stic.write(0x20, 0);
+    stic.write(0x28, 1);
+    stic.write(0x29, 5);
+    // GROM card 1, red:
+    backtab.data[0] = (1 << 3) | 2;
+    // GRAM card 2, pink (color 12), advancing the color stack:
+    backtab.data[1] = 0x2000 | 0x1000 | 0x0800 | (2 << 3) | 4;
+    stic.render();
+
+    expect(pixel(0, 0)).toBe(2);
+    expect(pixel(4, 7)).toBe(1);
+    expect(pixel(8, 0)).toBe(5);
+    expect(pixel(12, 0)).toBe(12);
+    // The stack stays advanced:
+    expect(pixel(16, 0)).toBe(5);
+  });
+
+  test("draws Colored Squares", () => {
+    const {stic, backtab, pixel} = createSTIC();
+    stic.write(0x20, 0);
+    stic.write(0x28, 9);
+    backtab.data[0] = 0x1000 | (1 << 0) | (2 << 3) | (3 << 6) | (0b11 << 9);
+    backtab.data[1] = 0x1000 | 0x2000 | 7;
+    stic.render();
+
+    expect([pixel(0, 0), pixel(4, 0), pixel(0, 4), pixel(4, 4)]).toEqual([
+      1, 2, 3, 3,
+    ]);
+    // Color 7 means the color stack's, and bit 13 is part of the bottom right
+    // color rather than advancing the stack:
+    expect(pixel(8, 0)).toBe(9);
+    expect(pixel(12, 4)).toBe(4);
+  });
+
+  test("draws Foreground/Background mode cards", () => {
+    const {stic, backtab, pixel} = createSTIC();
+    stic.write(0x20, 0);
+    stic.write(0x21, 0);
+    expect(stic.mode).toBe("foregroundBackground");
+    // GROM card 1, yellow on purple (15):
+    backtab.data[0] = 0x1000 | 0x2000 | (0b11 << 9) | (1 << 3) | 6;
+    // Bits 12 and 13 are background color bits 2 and 3:
+    backtab.data[1] = 0x1000 | (1 << 3) | 6;
+    backtab.data[2] = 0x2000 | (1 << 3) | 6;
+    stic.render();
+
+    expect(pixel(0, 0)).toBe(6);
+    expect(pixel(4, 0)).toBe(15);
+    expect(pixel(12, 0)).toBe(4);
+    expect(pixel(20, 0)).toBe(8);
+
+    // Reading the mode register switches back to Color Stack mode:
+    stic.busRead(0x21);
+    expect(stic.mode).toBe("colorStack");
+  });
+
+  test("draws the border", () => {
+    const {stic, pixel} = createSTIC();
+    stic.render();
+    // Blank when the display hasn't been enabled:
+    expect(stic.framebuffer.every((color) => color === 0)).toBe(true);
+
+    stic.write(0x20, 0);
+    stic.write(0x28, 1);
+    stic.write(0x2c, 3);
+    stic.write(0x30, 2);
+    stic.write(0x32, 0b10);
+    stic.render();
+    expect(stic.framebuffer[0]).toBe(3);
+    expect(pixel(0, 8)).toBe(3);
+    expect(pixel(2, 8)).toBe(1);
+    expect(pixel(2, 7)).toBe(3);
+    expect(pixel(STIC.PICTURE_WIDTH, 50)).toBe(3);
+  });
+
+  test("raises INTRM and opens the register window during VBLANK", () => {
+    const {bus, stic} = createSTIC();
+    const frames: number[] = [];
+    stic.onFrame = () => frames.push(stic.cycle);
+    const runCycles = (cycles: number) => {
+      for (let i = 0; i < cycles * 4; ++i) {
+        bus.clock();
+        stic.clock();
+      }
+    };
+
+    runCycles(1);
+    expect(bus.intrm).toBe(true);
+    expect(stic.read(0x28)).toBe(0x3ff0);
+    runCycles(STIC.VBLANK_CYCLES);
+    expect(bus.intrm).toBe(false);
+    expect(frames).toEqual([STIC.VBLANK_CYCLES]);
+
+    stic.write(0x28, 1);
+    expect(stic.read(0x28)).toBeNull();
+    runCycles(STIC.CYCLES_PER_FRAME - STIC.VBLANK_CYCLES);
+    expect(bus.intrm).toBe(true);
+    expect(stic.read(0x28)).toBe(0x3ff0);
+  });
+
+  test("clears its registers and restarts the frame on RESET", () => {
+    const {bus, stic} = createSTIC();
+    const runCycles = (cycles: number) => {
+      for (let i = 0; i < cycles * 4; ++i) {
+        bus.clock();
+        stic.clock();
+      }
+    };
+
+    runCycles(10);
+    stic.write(0x2c, 0x5);
+    stic.write(0x21, 0);
+    runCycles(STIC.VBLANK_CYCLES);
+
+    bus.reset = true;
+    runCycles(1);
+    bus.reset = false;
+    expect(stic.registers[0x2c]).toBe(0);
+    expect(stic.mode).toBe("colorStack");
+    expect(bus.intrm).toBe(false);
+
+    runCycles(1);
+    expect(stic.cycle).toBe(1);
+    expect(bus.intrm).toBe(true);
+  });
+
+  test("lets the CPU enable the display from the VBLANK interrupt", () => {
+    // prettier-ignore
+    const {bus, stic, memory} = createSTIC([
+      /* $1000 */ 0x0200, 0x000e, // B $1010
+      /* $1002 */ 0x0000, 0x0000,
+      // Interrupt service routine:
+      /* $1004 */ 0x0240, 0x0020, // MVO R0,$0020
+      /* $1006 */ 0x02b8, 0x0005, // MVII #$0005,R0
+      /* $1008 */ 0x0240, 0x402c, // MVO R0,$402C
+      /* $100A */ 0x0000, // HLT
+      /* $100B */ 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+      /* $1010 */ 0x02be, 0x0200, // MVII #$0200,R6
+      /* $1012 */ 0x0002, // EIS
+      /* $1013 */ 0x0220, 0x0001, // B $1013
+    ]);
+    const cpu = new CP1610(bus);
+    // Start partway through the frame so that the CPU is ready for VBLANK:
+    stic.cycle = STIC.VBLANK_CYCLES;
+    for (let i = 0; i < STIC.CYCLES_PER_FRAME * 4 && !cpu.halted; ++i) {
+      bus.clock();
+      cpu.clock();
+      memory.clock();
+      stic.clock();
+    }
+
+    expect(cpu.halted).toBe(true);
+    expect(stic.displayEnabled).toBe(true);
+    expect(stic.registers[0x2c]).toBe(5);
+  });
+
+  describe("MOBs", () => {
+    const VISIBLE = 0x0100;
+    const INTERACT = 0x0200;
+    const XSIZE = 0x0400;
+    const YSIZE_2 = 0x0100;
+    const XFLIP = 0x0400;
+    const YFLIP = 0x0800;
+    const GRAM = 0x0800;
+    const BEHIND = 0x2000;
+
+    const createMobs = () => {
+      const system = createSTIC();
+      // GRAM card 8 is a triangle:
+      system.gram.data.set(
+        [0x80, 0xc0, 0xe0, 0xf0, 0xf8, 0xfc, 0xfe, 0xff],
+        64,
+      );
+      system.stic.write(0x20, 0);
+      return system;
+    };
+
+    test("draws MOBs at half-row resolution", () => {
+      const {stic, snapshot} = createMobs();
+      // Red, at the picture's top left corner plus (2, 1):
+      stic.write(0x00, VISIBLE | 10);
+      stic.write(0x08, 9);
+      stic.write(0x10, GRAM | (8 << 3) | 2);
+      stic.render();
+
+      expect(snapshot(0, 0, 8, 12)).toEqual([
+        "00000000",
+        "00000000",
+        "00200000",
+        "00220000",
+        "00222000",
+        "00222200",
+        "00222220",
+        "00222222",
+        "00222222",
+        "00222222",
+        "00000000",
+        "00000000",
+      ]);
+    });
+
+    test("stretches and flips MOBs", () => {
+      const {stic, snapshot} = createMobs();
+      stic.write(0x00, VISIBLE | XSIZE | 8);
+      stic.write(0x08, YSIZE_2 | XFLIP | YFLIP | 8);
+      // Pink (12):
+      stic.write(0x10, 0x1000 | GRAM | (8 << 3) | 4);
+      stic.render();
+
+      expect(snapshot(0, 0, 16, 16)).toEqual([
+        "cccccccccccccccc",
+        "cccccccccccccccc",
+        "00cccccccccccccc",
+        "00cccccccccccccc",
+        "0000cccccccccccc",
+        "0000cccccccccccc",
+        "000000cccccccccc",
+        "000000cccccccccc",
+        "00000000cccccccc",
+        "00000000cccccccc",
+        "0000000000cccccc",
+        "0000000000cccccc",
+        "000000000000cccc",
+        "000000000000cccc",
+        "00000000000000cc",
+        "00000000000000cc",
+      ]);
+    });
+
+    test("draws lower-numbered MOBs on top, and respects priority", () => {
+      const {stic, backtab, grom, pixel} = createMobs();
+      // A solid white GROM card, second from the left:
+      grom.data.fill(0xff, 16, 24);
+      backtab.data[1] = (2 << 3) | 7;
+      for (const mob of [0, 1, 2]) {
+        stic.write(0x08 + mob, YSIZE_2 | 8);
+        stic.write(0x10 + mob, GRAM | (8 << 3) | (mob + 1));
+      }
+      stic.write(0x00, VISIBLE | 12);
+      stic.write(0x10, BEHIND | GRAM | (8 << 3) | 1);
+      stic.write(0x01, VISIBLE | 10);
+      stic.write(0x02, VISIBLE | 12);
+      stic.write(0x0a, YSIZE_2 | 16);
+      stic.render();
+
+      expect(pixel(2, 7)).toBe(2);
+      // MOB 0 is in front of MOB 1...
+      expect(pixel(4, 7)).toBe(1);
+      // ...but behind the card, which hides MOB 1 too:
+      expect(pixel(8, 7)).toBe(7);
+      expect(pixel(10, 7)).toBe(7);
+      // MOB 2 is a row further down:
+      expect(pixel(10, 15)).toBe(3);
+    });
+
+    test("records collisions", () => {
+      const {stic, backtab, grom} = createMobs();
+      grom.data.fill(0xff, 16, 24);
+      backtab.data[1] = (2 << 3) | 7;
+      const place = (mob: number, x: number, y: number, flags: number) => {
+        stic.write(0x00 + mob, flags | x);
+        stic.write(0x08 + mob, y);
+        stic.write(0x10 + mob, GRAM | (8 << 3) | 1);
+      };
+      // MOBs 0 and 1 overlap, and 1 touches the card at $0201:
+      place(0, 8, 30, INTERACT);
+      place(1, 12, 30, VISIBLE | INTERACT);
+      stic.write(0x08 + 1, 8);
+      stic.write(0x08 + 0, 8);
+      // MOB 2 is halfway into the left border:
+      place(2, 4, 40, VISIBLE | INTERACT);
+      // MOB 3 overlaps MOB 0, but doesn't interact:
+      place(3, 8, 8, VISIBLE);
+      stic.render();
+
+      expect(Array.from(stic.registers.slice(0x18, 0x20))).toEqual([
+        0b0000_0010,
+        0x0100 | 0b0000_0001,
+        0x0200,
+        0,
+        0,
+        0,
+        0,
+        0,
+      ]);
+
+      // Collisions stick until they're cleared:
+      stic.write(0x00 + 1, 0);
+      stic.render();
+      expect(stic.registers[0x19]).toBe(0x0101);
+      stic.write(0x19, 0);
+      stic.render();
+      expect(stic.registers[0x19]).toBe(0);
+      expect(stic.read(0x19)).toBe(0x3c00);
+    });
+  });
+});
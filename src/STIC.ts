@@ -0,0 +1,421 @@
+import {Bus, BusDevice} from "./Bus";
+import {MemoryDevice, MemoryRegion} from "./MemoryMap";
+import {StateReader, StateWriter} from "./SaveState";
+
+export type STICMode = "colorStack" | "foregroundBackground";
+
+/**
+ * Bits of each register which are actually implemented; the rest read back as
+ * 1s (up to the STIC's 14 bits).
+ */
+// prettier-ignore
+const REGISTER_MASKS = [
+  /* $00-$07 MOB X */          0x07ff, 0x07ff, 0x07ff, 0x07ff, 0x07ff, 0x07ff, 0x07ff, 0x07ff,
+  /* $08-$0F MOB Y */          0x0fff, 0x0fff, 0x0fff, 0x0fff, 0x0fff, 0x0fff, 0x0fff, 0x0fff,
+  /* $10-$17 MOB attributes */ 0x3fff, 0x3fff, 0x3fff, 0x3fff, 0x3fff, 0x3fff, 0x3fff, 0x3fff,
+  /* $18-$1F MOB collisions */ 0x03ff, 0x03ff, 0x03ff, 0x03ff, 0x03ff, 0x03ff, 0x03ff, 0x03ff,
+  /* $20 display enable */     0x0000,
+  /* $21 mode select */        0x0000,
+  /* $22-$27 unused */         0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+  /* $28-$2B color stack */    0x000f, 0x000f, 0x000f, 0x000f,
+  /* $2C border color */       0x000f,
+  /* $2D-$2F unused */         0x0000, 0x0000, 0x0000,
+  /* $30 horizontal delay */   0x0007,
+  /* $31 vertical delay */     0x0007,
+  /* $32 border extension */   0x0003,
+  /* $33-$3F unused */         0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+                               0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+];
+
+/**
+ * STIC (AY-3-8900 Standard Television Interface Chip)
+ *
+ * Draws the 20x12 grid of 8x8 cards described by BACKTAB ($0200-$02EF in
+ * System RAM), using card pictures from GROM ($3000-$37FF) or GRAM
+ * ($3800-$39FF), and the eight MOBs (moving objects) on top of them, into an
+ * indexed-color `framebuffer`.
+ *
+ * Every frame starts with VBLANK, during which the STIC raises INTRM and its
+ * registers can be accessed; the rest of the time they read as floating and
+ * ignore writes. The frame is drawn all at once at the end of VBLANK, so
+ * changes made mid-frame don't show up until the next one, and the bus isn't
+ * stolen from the CPU to fetch cards during the active display.
+ *
+ * BACKTAB and card data are read with `debug_read` on the `memory` given when
+ * constructing (usually a `MemoryMap`, but System RAM lives outside of one).
+ * Map the registers with `regions()`.
+ */
+export class STIC implements BusDevice, MemoryDevice {
+  /** CPU cycles per (NTSC) frame. */
+  static CYCLES_PER_FRAME = 14934;
+  /** How long VBLANK (and the register access window) lasts, in cycles. */
+  static VBLANK_CYCLES = 2900;
+
+  static BACKTAB = 0x0200;
+  static GROM = 0x3000;
+  static GRAM = 0x3800;
+  static COLUMNS = 20;
+  static ROWS = 12;
+  static MOBS = 8;
+
+  /**
+   * Visible picture size, in card pixels. The 160th column is always covered
+   * by the border.
+   */
+  static PICTURE_WIDTH = 159;
+  static PICTURE_HEIGHT = 96;
+  static BORDER = 8;
+  /**
+   * Framebuffer size. There are two scanlines per row of card pixels, since
+   * MOBs have twice the vertical resolution of cards.
+   */
+  static WIDTH = STIC.PICTURE_WIDTH + 2 * STIC.BORDER;
+  static HEIGHT = (STIC.PICTURE_HEIGHT + 2 * STIC.BORDER) * 2;
+
+  /** The registers, plus mirrors of them, as seen by the CPU. */
+  static ADDRESSES = [0x0000, 0x4000, 0x8000, 0xc000] as const;
+
+  // prettier-ignore
+  static PALETTE = [
+    0x000000, // Black
+    0x002dff, // Blue
+    0xff3d10, // Red
+    0xc9cfab, // Tan
+    0x386b3f, // Dark Green
+    0x00a756, // Green
+    0xfaea50, // Yellow
+    0xfffcff, // White
+    0xbdacc8, // Grey
+    0x24b8ff, // Cyan
+    0xffb41f, // Orange
+    0x546e00, // Brown
+    0xff4e57, // Pink
+    0xa496ff, // Light Blue
+    0x75cc80, // Yellow-Green
+    0xb51a58, // Purple
+  ] as const;
+
+  name: string = "STIC";
+  bus: Bus;
+  memory: Pick<BusDevice, "debug_read">;
+  registers: Uint16Array = new Uint16Array(0x40);
+  mode: STICMode = "colorStack";
+
+  /** One palette index per pixel, row by row, border included. */
+  framebuffer: Uint8Array = new Uint8Array(STIC.WIDTH * STIC.HEIGHT);
+  /** Number of frames drawn so far. */
+  frame: number = 0;
+  onFrame: ((framebuffer: Uint8Array) => void) | null = null;
+
+  /** Cycles into the current frame. */
+  cycle: number = 0;
+  /** Frame length in cycles; longer on PAL machines. */
+  cyclesPerFrame: number = STIC.CYCLES_PER_FRAME;
+  /** Whether the display was enabled during the last VBLANK. */
+  displayEnabled: boolean = false;
+
+  _ticks: number = 0;
+
+  constructor(bus: Bus, memory: Pick<BusDevice, "debug_read">) {
+    this.bus = bus;
+    this.memory = memory;
+  }
+
+  get vblank(): boolean {
+    return this.cycle < STIC.VBLANK_CYCLES;
+  }
+
+  /** Regions to add to a `MemoryMap` for the registers and their mirrors. */
+  regions(): MemoryRegion[] {
+    return STIC.ADDRESSES.map((start) => ({
+      device: this,
+      start,
+      end: start + this.registers.length,
+    }));
+  }
+
+  read(offset: number): number | null {
+    if (!this.vblank) return null;
+    const mask = REGISTER_MASKS[offset];
+    if (mask == null) return null;
+    return (this.registers[offset]! & mask) | (0x3fff & ~mask);
+  }
+
+  busRead(offset: number): number | null {
+    if (this.vblank && offset === 0x21) this.mode = "colorStack";
+    return this.read(offset);
+  }
+
+  write(offset: number, data: number): void {
+    if (!this.vblank) return;
+    if (offset === 0x20) this.displayEnabled = true;
+    if (offset === 0x21) this.mode = "foregroundBackground";
+    if (offset < this.registers.length) this.registers[offset] = data;
+  }
+
+  clock(): void {
+    this._ticks = (this._ticks + 1) % 4;
+    if (this.bus.reset) return this.reset();
+    if (this._ticks !== 0) return;
+
+    if (this.cycle === 0) {
+      // Start of VBLANK. The display has to be re-enabled every frame:
+      this.displayEnabled = false;
+      this.bus.intrm = true;
+    }
+    if (this.bus.intrm && this.bus.flags === Bus.INTAK) {
+      this.bus.intrm = false;
+    }
+
+    this.cycle += 1;
+    if (this.cycle === STIC.VBLANK_CYCLES) {
+      this.bus.intrm = false;
+      this.render();
+    }
+    if (this.cycle >= this.cyclesPerFrame) this.cycle = 0;
+  }
+
+  /**
+   * Clears the registers and starts a new frame once RESET is released. The
+   * framebuffer keeps showing the last frame until then.
+   */
+  reset(): void {
+    this.registers.fill(0);
+    this.mode = "colorStack";
+    this.displayEnabled = false;
+    this.cycle = 0;
+    this.bus.intrm = false;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.u8(this._ticks);
+    writer.u16Array(this.registers);
+    writer.bool(this.mode === "foregroundBackground");
+    writer.bool(this.displayEnabled);
+    writer.u32(this.cycle);
+    writer.u32(this.frame);
+    writer.u8Array(this.framebuffer);
+  }
+
+  loadState(reader: StateReader): void {
+    this._ticks = reader.u8();
+    reader.u16Array(this.registers);
+    this.mode = reader.bool() ? "foregroundBackground" : "colorStack";
+    this.displayEnabled = reader.bool();
+    this.cycle = reader.u32();
+    this.frame = reader.u32();
+    reader.u8Array(this.framebuffer);
+  }
+
+  debug_read(_addr: number): number | null {
+    return null;
+  }
+
+  /** Draws a frame from the current registers, BACKTAB, and MOBs. */
+  render(): void {
+    const {framebuffer} = this;
+    const border = this.registers[0x2c]! & 0xf;
+    framebuffer.fill(this.displayEnabled ? border : 0);
+
+    if (this.displayEnabled) {
+      const picture = this.#renderPicture();
+      const hDelay = this.registers[0x30]! & 0x7;
+      const vDelay = this.registers[0x31]! & 0x7;
+      const extension = this.registers[0x32]! & 0x3;
+      const left = extension & 0b01 ? 8 : 0;
+      const top = extension & 0b10 ? 8 : 0;
+
+      // Which framebuffer pixels show the picture (rather than border), and
+      // which of those are foreground pixels of a card:
+      const inPicture = new Uint8Array(framebuffer.length);
+      const foreground = new Uint8Array(framebuffer.length);
+
+      for (let y = top; y < STIC.PICTURE_HEIGHT; ++y) {
+        for (let x = left; x < STIC.PICTURE_WIDTH; ++x) {
+          // Delays push the picture right/down, revealing border:
+          const px = x - hDelay;
+          const py = y - vDelay;
+          if (px < 0 || py < 0) continue;
+          const p = py * STIC.COLUMNS * 8 + px;
+          for (let line = 0; line < 2; ++line) {
+            const i =
+              ((y + STIC.BORDER) * 2 + line) * STIC.WIDTH + x + STIC.BORDER;
+            framebuffer[i] = picture.colors[p]!;
+            inPicture[i] = 1;
+            foreground[i] = picture.foreground[p]!;
+          }
+        }
+      }
+
+      this.#renderMobs(hDelay, vDelay, inPicture, foreground);
+    }
+
+    this.frame += 1;
+    if (this.onFrame) this.onFrame(framebuffer);
+  }
+
+  /**
+   * Draws the MOBs over the picture, and records their collisions.
+   *
+   * MOB coordinates are relative to the top left of the border, so (8, 8) is
+   * the top left of the picture. Vertically, MOBs have twice the resolution of
+   * cards: each line of a MOB's picture is one scanline tall before scaling.
+   */
+  #renderMobs(
+    hDelay: number,
+    vDelay: number,
+    inPicture: Uint8Array,
+    foreground: Uint8Array,
+  ): void {
+    const {framebuffer, registers} = this;
+    // One bit per MOB covering each pixel:
+    const coverage = new Uint8Array(framebuffer.length);
+    let visible = 0;
+    let interacting = 0;
+    let behind = 0;
+    const colors: number[] = [];
+
+    for (let mob = 0; mob < STIC.MOBS; ++mob) {
+      const x = registers[mob]!;
+      const y = registers[0x08 + mob]!;
+      const attributes = registers[0x10 + mob]!;
+      if (x & 0x0100) visible |= 1 << mob;
+      if (x & 0x0200) interacting |= 1 << mob;
+      if (attributes & 0x2000) behind |= 1 << mob;
+      colors[mob] = (attributes & 0x7) | ((attributes >> 9) & 0x8);
+
+      const width = x & 0x0400 ? 2 : 1;
+      const yres = (y & 0x0080) !== 0;
+      const scale = 1 << ((y >> 8) & 0x3);
+      const xflip = (y & 0x0400) !== 0;
+      const yflip = (y & 0x0800) !== 0;
+      const lines = yres ? 16 : 8;
+      // Double-resolution MOBs use an even card and the one after it:
+      const card = this.#cardAddress(attributes, 256) & (yres ? ~0x8 : ~0);
+      const originX = STIC.BORDER + hDelay + (x & 0xff) - 8;
+      const originY = (STIC.BORDER + vDelay + (y & 0x7f) - 8) * 2;
+
+      for (let line = 0; line < lines; ++line) {
+        const bits =
+          this.#peek(card + (yflip ? lines - 1 - line : line)) & 0xff;
+        if (bits === 0) continue;
+        for (let s = 0; s < scale; ++s) {
+          const fy = originY + line * scale + s;
+          if (fy < 0 || fy >= STIC.HEIGHT) continue;
+          for (let bit = 0; bit < 8; ++bit) {
+            if (!(bits & (0x80 >> (xflip ? 7 - bit : bit)))) continue;
+            for (let w = 0; w < width; ++w) {
+              const fx = originX + bit * width + w;
+              if (fx < 0 || fx >= STIC.WIDTH) continue;
+              coverage[fy * STIC.WIDTH + fx]! |= 1 << mob;
+            }
+          }
+        }
+      }
+    }
+
+    const collisions = new Uint16Array(STIC.MOBS);
+    for (let i = 0; i < coverage.length; ++i) {
+      const mobs = coverage[i]!;
+      if (mobs === 0) continue;
+
+      // Collisions are detected whether or not the MOBs are visible:
+      const active = mobs & interacting;
+      if (active) {
+        const other = !inPicture[i] ? 0x0200 : foreground[i] ? 0x0100 : 0;
+        for (let mob = 0; mob < STIC.MOBS; ++mob) {
+          if (!(active & (1 << mob))) continue;
+          collisions[mob]! |= other | (active & ~(1 << mob));
+        }
+      }
+
+      // Lower-numbered MOBs are drawn over higher-numbered ones:
+      const shown = mobs & visible;
+      if (!shown || !inPicture[i]) continue;
+      const mob = 31 - Math.clz32(shown & -shown);
+      if (behind & (1 << mob) && foreground[i]) continue;
+      framebuffer[i] = colors[mob]!;
+    }
+
+    // Collisions accumulate until the CPU clears them:
+    collisions.forEach((bits, mob) => {
+      registers[0x18 + mob]! |= bits;
+    });
+  }
+
+  /** Draws BACKTAB into a 160x96 buffer. */
+  #renderPicture(): {colors: Uint8Array; foreground: Uint8Array} {
+    const width = STIC.COLUMNS * 8;
+    const colors = new Uint8Array(width * STIC.ROWS * 8);
+    const foreground = new Uint8Array(colors.length);
+    let colorStackIndex = 0;
+
+    for (let row = 0; row < STIC.ROWS; ++row) {
+      for (let column = 0; column < STIC.COLUMNS; ++column) {
+        const word = this.#peek(STIC.BACKTAB + row * STIC.COLUMNS + column);
+        const origin = row * 8 * width + column * 8;
+        const plot = (x: number, y: number, color: number, fg: boolean) => {
+          colors[origin + y * width + x] = color;
+          foreground[origin + y * width + x] = fg ? 1 : 0;
+        };
+
+        let fg: number;
+        let bg: number;
+        if (this.mode === "colorStack") {
+          // Colored Squares: four 4x4 blocks, colors 0-6 plus the color
+          // stack's for color 7, which counts as background.
+          if ((word & 0x1800) === 0x1000) {
+            const stack = this.registers[0x28 + colorStackIndex]! & 0xf;
+            const squares = [
+              word & 0x7,
+              (word >> 3) & 0x7,
+              (word >> 6) & 0x7,
+              ((word >> 9) & 0x3) | ((word >> 11) & 0x4),
+            ];
+            for (let y = 0; y < 8; ++y) {
+              for (let x = 0; x < 8; ++x) {
+                const color = squares[(y >> 2) * 2 + (x >> 2)]!;
+                plot(x, y, color === 7 ? stack : color, color !== 7);
+              }
+            }
+            continue;
+          }
+          if (word & 0x2000) colorStackIndex = (colorStackIndex + 1) & 0x3;
+          fg = (word & 0x7) | ((word >> 9) & 0x8);
+          bg = this.registers[0x28 + colorStackIndex]! & 0xf;
+        } else {
+          fg = word & 0x7;
+          bg =
+            ((word >> 9) & 0x3) | ((word >> 10) & 0x4) | ((word >> 10) & 0x8);
+        }
+
+        // Only 64 GROM cards are available in Foreground/Background mode:
+        const card = this.#cardAddress(
+          word,
+          this.mode === "foregroundBackground" ? 64 : 256,
+        );
+        for (let y = 0; y < 8; ++y) {
+          const bits = this.#peek(card + y) & 0xff;
+          for (let x = 0; x < 8; ++x) {
+            const set = (bits & (0x80 >> x)) !== 0;
+            plot(x, y, set ? fg : bg, set);
+          }
+        }
+      }
+    }
+
+    return {colors, foreground};
+  }
+
+  /** Address of the picture for a BACKTAB card or MOB. */
+  #cardAddress(word: number, cards: 64 | 256): number {
+    const gram = (word & 0x0800) !== 0;
+    // GRAM only has 64 cards:
+    const card = (word >> 3) & (gram ? 0x3f : cards - 1);
+    return (gram ? STIC.GRAM : STIC.GROM) + card * 8;
+  }
+
+  #peek(addr: number): number {
+    return this.memory.debug_read(addr) ?? 0;
+  }
+}
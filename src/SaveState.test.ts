@@ -0,0 +1,188 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {describe, expect, test} from "vitest";
+import {Bus} from "./Bus";
+import {Intellivision} from "./Intellivision";
+import {Machine} from "./Machine";
+import {
+  SAVE_STATE_VERSION,
+  SaveStateError,
+  StateReader,
+  StateWriter,
+} from "./SaveState";
+import {CP1610} from "./cp1610";
+import {loadStateFromFile, saveStateToFile} from "./saveStateFile";
+import {intellivisionFactory, toBin} from "./testHelpers";
+
+// prettier-ignore
+const exec = [
+  /* $1000 */ 0x0200, 0x000e, // B $1010
+  /* $1002 */ 0x0000, 0x0000,
+  // Interrupt service routine:
+  /* $1004 */ 0x0240, 0x0020, // MVO R0,$0020
+  /* $1006 */ 0x0009, // INCR R1
+  /* $1007 */ 0x0241, 0x0300, // MVO R1,$0300
+  /* $1009 */ 0x02b7, // PULR R7
+  /* $100A */ 0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+  /* $1010 */ 0x02be, 0x0200, // MVII #$0200,R6
+  /* $1012 */ 0x0002, // EIS
+  /* $1013 */ 0x000a, // INCR R2
+  /* $1014 */ 0x0242, 0x0100, // MVO R2,$0100
+  /* $1016 */ 0x0220, 0x0004, // B $1013
+];
+
+const createIntellivision = intellivisionFactory(exec);
+
+/** Somewhere in the middle of an instruction, a couple of frames in. */
+const runAWhile = (intv: Intellivision) => {
+  intv.runFrame();
+  intv.runFrame();
+  for (let i = 0; i < 1234; ++i) intv.tick();
+};
+
+describe("StateWriter and StateReader", () => {
+  test("read back what was written", () => {
+    const writer = new StateWriter();
+    writer.section("Test", () => {
+      writer.u8(0x12);
+      writer.u16(0x3456);
+      writer.u32(0x789abcde);
+      writer.f64(1.5);
+      writer.bool(true);
+      writer.nullable(null);
+      writer.nullable(0xffff);
+      writer.string("Hello");
+      writer.u8Array(Uint8Array.from([1, 2, 3]));
+      writer.u16Array(Uint16Array.from([0xffff, 0x0000]));
+    });
+
+    const reader = new StateReader(writer.finish());
+    const u8 = new Uint8Array(3);
+    const u16 = new Uint16Array(2);
+    reader.section("Test", () => {
+      expect(reader.u8()).toBe(0x12);
+      expect(reader.u16()).toBe(0x3456);
+      expect(reader.u32()).toBe(0x789abcde);
+      expect(reader.f64()).toBe(1.5);
+      expect(reader.bool()).toBe(true);
+      expect(reader.nullable()).toBe(null);
+      expect(reader.nullable()).toBe(0xffff);
+      expect(reader.string()).toBe("Hello");
+      reader.u8Array(u8);
+      reader.u16Array(u16);
+    });
+    expect([...u8]).toEqual([1, 2, 3]);
+    expect([...u16]).toEqual([0xffff, 0x0000]);
+    expect(reader.version).toBe(SAVE_STATE_VERSION);
+  });
+
+  test("reject sections and arrays that don't match", () => {
+    const writer = new StateWriter();
+    writer.section("Test", () => writer.u16Array([1, 2]));
+    const state = writer.finish();
+
+    expect(() => new StateReader(state).section("Other", () => {})).toThrow(
+      "Expected Other state, found Test",
+    );
+    expect(() => new StateReader(state).section("Test", () => {})).toThrow(
+      "Corrupt Test state",
+    );
+    const reader = new StateReader(state);
+    expect(() =>
+      reader.section("Test", () => reader.u16Array(new Uint16Array(3))),
+    ).toThrow("Expected 3 elements, found 2");
+  });
+
+  test("reject anything else, and other versions", () => {
+    expect(() => new StateReader(new Uint8Array(16))).toThrow(
+      /Not a save state/,
+    );
+
+    const state = new StateWriter().finish();
+    state[8] = SAVE_STATE_VERSION + 1;
+    expect(() => new StateReader(state)).toThrow(
+      `Unsupported save state version ${SAVE_STATE_VERSION + 1}`,
+    );
+  });
+});
+
+describe("Machine save states", () => {
+  test("pick up exactly where they left off, mid-instruction", () => {
+    const intv = createIntellivision();
+    runAWhile(intv);
+    const state = intv.saveState();
+    expect(intv.cpu.r[1]).toBeGreaterThan(0);
+
+    const restored = createIntellivision();
+    restored.loadState(state);
+    expect(restored.ticks).toBe(intv.ticks);
+    expect([...restored.cpu.r]).toEqual([...intv.cpu.r]);
+    expect(restored.saveState()).toEqual(state);
+
+    intv.runFrame();
+    restored.runFrame();
+    expect(restored.saveState()).toEqual(intv.saveState());
+    expect(restored.stic.framebuffer).toEqual(intv.stic.framebuffer);
+    expect([...restored.samples.data]).toEqual([...intv.samples.data]);
+  });
+
+  test("can be loaded over a running machine", () => {
+    const intv = createIntellivision();
+    runAWhile(intv);
+    const state = intv.saveState();
+    const words = intv.systemRam.data.slice();
+
+    intv.runFrame();
+    intv.reset();
+    intv.loadState(state);
+    expect(intv.systemRam.data).toEqual(words);
+    expect(intv.saveState()).toEqual(state);
+  });
+
+  test("only load into a machine built the same way", () => {
+    const state = createIntellivision().saveState();
+    expect(() =>
+      createIntellivision({ecs: new Uint8Array(0x6000)}).loadState(state),
+    ).toThrow(SaveStateError);
+
+    const otherExec = toBin(exec);
+    otherExec[1] = 0x01;
+    expect(() =>
+      createIntellivision({exec: otherExec}).loadState(state),
+    ).toThrow(/ROM contents don't match/);
+  });
+
+  test("reject truncated states", () => {
+    const state = createIntellivision().saveState();
+    expect(() =>
+      createIntellivision().loadState(state.subarray(0, state.length - 1)),
+    ).toThrow(/Unexpected end of save state/);
+  });
+
+  test("need every device to support them", () => {
+    const bus = new Bus();
+    const machine = new Machine(bus, new CP1610(bus), [
+      {clock: () => {}, debug_read: () => null},
+    ]);
+    expect(() => machine.saveState()).toThrow(
+      "Device doesn't support save states",
+    );
+  });
+
+  test("can be saved to and loaded from files", async () => {
+    const intv = createIntellivision();
+    runAWhile(intv);
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "intv-"));
+    try {
+      const file = path.join(dir, "state.bin");
+      await saveStateToFile(intv, file);
+
+      const restored = createIntellivision();
+      await loadStateFromFile(restored, file);
+      expect(restored.saveState()).toEqual(intv.saveState());
+    } finally {
+      await fs.promises.rm(dir, {recursive: true});
+    }
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Binary save state format.
+ *
+ * Layout:
+ *
+ * - 8 bytes: "INTVSAVE"
+ * - 2 bytes: format version
+ * - The machine's state, as a tree of sections. A section is its name, its
+ *   length in bytes, then whatever its owner wrote.
+ *
+ * Everything is little-endian. Strings and arrays are prefixed with their
+ * length (in bytes and elements, respectively).
+ *
+ * Sections are read back in the same order they were written, and their names
+ * are checked along the way, so a state can't be loaded into a machine built
+ * from a different configuration. Bump `SAVE_STATE_VERSION` whenever what any
+ * device writes changes.
+ */
+
+export const SAVE_STATE_MAGIC = "INTVSAVE";
+export const SAVE_STATE_VERSION = 1;
+
+export class SaveStateError extends Error {
+  /** Byte offset into the save state at fault. */
+  offset: number;
+
+  constructor(offset: number, message: string) {
+    super(`Offset $${offset.toString(16).toUpperCase()}: ${message}`);
+    this.offset = offset;
+  }
+}
+
+/** Something with state that goes into a save state. */
+export interface Stateful {
+  saveState(writer: StateWriter): void;
+  /** Reads back exactly what `saveState` wrote. */
+  loadState(reader: StateReader): void;
+}
+
+export const isStateful = (value: unknown): value is Stateful =>
+  typeof (value as Partial<Stateful> | null)?.saveState === "function" &&
+  typeof (value as Partial<Stateful> | null)?.loadState === "function";
+
+/**
+ * FNV-1a hash of some words, for checking that a state is being loaded
+ * alongside the same ROMs it was saved with, without saving them too.
+ */
+export const checksum = (
+  words: ArrayLike<number>,
+  hash: number = 0x811c9dc5,
+): number => {
+  for (let i = 0; i < words.length; ++i) {
+    hash = Math.imul(hash ^ words[i]!, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class StateWriter {
+  length: number = 0;
+
+  #bytes: Uint8Array = new Uint8Array(0x4000);
+  #view: DataView = new DataView(this.#bytes.buffer);
+
+  constructor() {
+    this.bytes(encoder.encode(SAVE_STATE_MAGIC));
+    this.u16(SAVE_STATE_VERSION);
+  }
+
+  u8(value: number): void {
+    this.#reserve(1).setUint8(this.length - 1, value);
+  }
+
+  u16(value: number): void {
+    this.#reserve(2).setUint16(this.length - 2, value, true);
+  }
+
+  u32(value: number): void {
+    this.#reserve(4).setUint32(this.length - 4, value, true);
+  }
+
+  f64(value: number): void {
+    this.#reserve(8).setFloat64(this.length - 8, value, true);
+  }
+
+  bool(value: boolean): void {
+    this.u8(value ? 1 : 0);
+  }
+
+  /** A 16-bit (or smaller) value, or null. */
+  nullable(value: number | null): void {
+    this.f64(value ?? -1);
+  }
+
+  string(value: string): void {
+    const bytes = encoder.encode(value);
+    this.u32(bytes.length);
+    this.bytes(bytes);
+  }
+
+  u8Array(values: Uint8Array): void {
+    this.u32(values.length);
+    this.bytes(values);
+  }
+
+  u16Array(values: ArrayLike<number>): void {
+    this.u32(values.length);
+    for (let i = 0; i < values.length; ++i) this.u16(values[i]!);
+  }
+
+  section(name: string, write: () => void): void {
+    this.string(name);
+    const lengthOffset = this.length;
+    this.u32(0);
+    write();
+    this.#view.setUint32(lengthOffset, this.length - lengthOffset - 4, true);
+  }
+
+  /** Everything written so far. */
+  finish(): Uint8Array {
+    return this.#bytes.slice(0, this.length);
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.#reserve(bytes.length);
+    this.#bytes.set(bytes, this.length - bytes.length);
+  }
+
+  /** Makes room for `count` more bytes, and counts them as written. */
+  #reserve(count: number): DataView {
+    if (this.length + count > this.#bytes.length) {
+      const bytes = new Uint8Array(
+        Math.max(this.#bytes.length * 2, this.length + count),
+      );
+      bytes.set(this.#bytes);
+      this.#bytes = bytes;
+      this.#view = new DataView(bytes.buffer);
+    }
+    this.length += count;
+    return this.#view;
+  }
+}
+
+export class StateReader {
+  offset: number = 0;
+  version: number;
+
+  #bytes: Uint8Array;
+  #view: DataView;
+
+  constructor(bytes: Uint8Array) {
+    this.#bytes = bytes;
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+
+    const magic = decoder.decode(this.bytes(SAVE_STATE_MAGIC.length));
+    if (magic !== SAVE_STATE_MAGIC) {
+      throw new SaveStateError(0, `Not a save state`);
+    }
+    this.version = this.u16();
+    if (this.version !== SAVE_STATE_VERSION) {
+      throw new SaveStateError(
+        SAVE_STATE_MAGIC.length,
+        `Unsupported save state version ${this.version} (expected ${SAVE_STATE_VERSION})`,
+      );
+    }
+  }
+
+  u8(): number {
+    return this.#take(1).getUint8(this.offset - 1);
+  }
+
+  u16(): number {
+    return this.#take(2).getUint16(this.offset - 2, true);
+  }
+
+  u32(): number {
+    return this.#take(4).getUint32(this.offset - 4, true);
+  }
+
+  f64(): number {
+    return this.#take(8).getFloat64(this.offset - 8, true);
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  nullable(): number | null {
+    const value = this.f64();
+    return value < 0 ? null : value;
+  }
+
+  string(): string {
+    return decoder.decode(this.bytes(this.u32()));
+  }
+
+  /** Reads an array written by `u8Array` into `into`, which must fit it. */
+  u8Array(into: Uint8Array): void {
+    into.set(this.bytes(this.#arrayLength(into.length)));
+  }
+
+  /** Reads an array written by `u16Array` into `into`, which must fit it. */
+  u16Array(into: {length: number; [index: number]: number}): void {
+    const length = this.#arrayLength(into.length);
+    for (let i = 0; i < length; ++i) into[i] = this.u16();
+  }
+
+  section(name: string, read: () => void): void {
+    const start = this.offset;
+    const found = this.string();
+    if (found !== name) {
+      throw new SaveStateError(start, `Expected ${name} state, found ${found}`);
+    }
+    const length = this.u32();
+    const end = this.offset + length;
+    read();
+    if (this.offset !== end) {
+      throw new SaveStateError(start, `Corrupt ${name} state`);
+    }
+  }
+
+  bytes(count: number): Uint8Array {
+    this.#take(count);
+    return this.#bytes.subarray(this.offset - count, this.offset);
+  }
+
+  #arrayLength(expected: number): number {
+    const offset = this.offset;
+    const length = this.u32();
+    if (length !== expected) {
+      throw new SaveStateError(
+        offset,
+        `Expected ${expected} elements, found ${length}`,
+      );
+    }
+    return length;
+  }
+
+  #take(count: number): DataView {
+    if (this.offset + count > this.#bytes.length) {
+      throw new SaveStateError(this.offset, `Unexpected end of save state`);
+    }
+    this.offset += count;
+    return this.#view;
+  }
+}
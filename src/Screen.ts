@@ -0,0 +1,73 @@
+import {STIC} from "./STIC";
+
+/**
+ * - `integer`: Square card pixels, scaled by a whole number so every pixel is
+ *   the same size.
+ * - `aspect`: Stretched to fill a 4:3 screen, like a TV would.
+ */
+export type Scaling = "integer" | "aspect";
+
+/**
+ * Draws the STIC's framebuffer onto a canvas.
+ *
+ * The canvas stays at the framebuffer's resolution; scaling is done with CSS
+ * (with `image-rendering: pixelated`), so it's free.
+ */
+export class Screen {
+  static ASPECT_RATIO = 4 / 3;
+
+  canvas: HTMLCanvasElement;
+  scaling: Scaling;
+
+  #context: CanvasRenderingContext2D;
+  #image: ImageData;
+  #pixels: Uint32Array;
+  /**
+   * `STIC.PALETTE` as RGBA pixels. Assumes a little-endian platform, which is
+   * all of them.
+   */
+  #palette: Uint32Array = Uint32Array.from(
+    STIC.PALETTE,
+    (rgb) =>
+      0xff000000 | ((rgb & 0xff) << 16) | (rgb & 0xff00) | ((rgb >> 16) & 0xff),
+  );
+
+  constructor(canvas: HTMLCanvasElement, scaling: Scaling = "integer") {
+    this.canvas = canvas;
+    this.scaling = scaling;
+    canvas.width = STIC.WIDTH;
+    canvas.height = STIC.HEIGHT;
+    canvas.style.imageRendering = "pixelated";
+    this.#context = canvas.getContext("2d")!;
+    this.#image = this.#context.createImageData(STIC.WIDTH, STIC.HEIGHT);
+    this.#pixels = new Uint32Array(this.#image.data.buffer);
+  }
+
+  draw(framebuffer: Uint8Array): void {
+    for (let i = 0; i < framebuffer.length; ++i) {
+      this.#pixels[i] = this.#palette[framebuffer[i]!]!;
+    }
+    this.#context.putImageData(this.#image, 0, 0);
+  }
+
+  /** Sizes the canvas to fit within `width` by `height` CSS pixels. */
+  fit(width: number, height: number): void {
+    let cssWidth: number;
+    let cssHeight: number;
+    if (this.scaling === "integer") {
+      // There are two framebuffer rows per card pixel:
+      const rows = STIC.HEIGHT / 2;
+      const scale = Math.max(
+        1,
+        Math.floor(Math.min(width / STIC.WIDTH, height / rows)),
+      );
+      cssWidth = STIC.WIDTH * scale;
+      cssHeight = rows * scale;
+    } else {
+      cssWidth = Math.min(width, height * Screen.ASPECT_RATIO);
+      cssHeight = cssWidth / Screen.ASPECT_RATIO;
+    }
+    this.canvas.style.width = `${cssWidth}px`;
+    this.canvas.style.height = `${cssHeight}px`;
+  }
+}
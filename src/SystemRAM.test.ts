@@ -0,0 +1,58 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {CP1610} from "./cp1610";
+import {MemoryMap} from "./MemoryMap";
+import {ROM} from "./ROM";
+import {SystemRAM} from "./SystemRAM";
+
+describe("SystemRAM", () => {
+  // prettier-ignore
+  const program = (stack: number) => [
+    /* $1000 */ 0x0002, // EIS
+    /* $1001 */ 0x02be, stack, // MVII #stack,R6
+    /* $1003 */ 0x0008, // INCR R0
+    /* $1004 */ 0x0000, // HLT (interrupt service routine)
+  ];
+
+  const run = (stack: number) => {
+    const bus = new Bus();
+    const cpu = new CP1610(bus);
+    const systemRam = new SystemRAM(bus, 0x0200, 0x0360);
+    const memory = new MemoryMap(bus).add(
+      new ROM(bus, CP1610.RESET_VECTOR, Uint16Array.from(program(stack))),
+      CP1610.RESET_VECTOR,
+      CP1610.RESET_VECTOR + 5,
+    );
+    const busCopyFlags = new Set<number>();
+
+    bus.intrm = true;
+    for (let i = 0; i < 10_000 && !cpu.halted; ++i) {
+      bus.clock();
+      cpu.clock();
+      memory.clock();
+      systemRam.clock();
+      if (bus.flags === Bus.INTAK) bus.intrm = false;
+      if (systemRam.busCopy) busCopyFlags.add(bus.flags);
+    }
+
+    expect(cpu.halted).toBe(true);
+    return {cpu, systemRam, busCopyFlags};
+  };
+
+  test("latches the stack pointer on INTAK and pushes R7", () => {
+    const {cpu, systemRam, busCopyFlags} = run(0x02f1);
+    expect(cpu.r[6]).toBe(0x02f2);
+    expect(systemRam.data[0x00f1]).toBe(0x1003);
+    expect(systemRam.busCopy).toBe(false);
+    expect(busCopyFlags).toEqual(
+      new Set([Bus.INTAK, Bus.___, Bus.DW, Bus.DWS]),
+    );
+  });
+
+  test("ignores INTAK when the stack is elsewhere", () => {
+    const {systemRam, busCopyFlags} = run(0x0100);
+    expect(systemRam.data.every((data) => data === 0)).toBe(true);
+    expect(busCopyFlags.size).toBe(0);
+  });
+});
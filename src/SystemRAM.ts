@@ -0,0 +1,67 @@
+import {Bus} from "./Bus";
+import {RAM} from "./RAM";
+import {StateReader, StateWriter} from "./SaveState";
+
+/**
+ * The Master Component's 16-bit System RAM ($0200-$035F), which holds BACKTAB
+ * and the stack.
+ *
+ * Unlike every other device in the system, System RAM sees the INTAK bus phase
+ * as-is rather than remapped to BAR. It latches the stack pointer the CPU puts
+ * on the bus during INTAK, then enters a bus-copy mode in which it copies
+ * whatever is on the bus into that address until the end of the following
+ * DW/DWS write, which is how the program counter gets pushed on interrupt
+ * entry.
+ *
+ * A `MemoryMap` sees INTAK remapped to BAR, so put this on the bus directly
+ * rather than adding it to one.
+ */
+export class SystemRAM extends RAM {
+  name: string = "System RAM";
+
+  /** Whether we're copying the bus into the address latched during INTAK. */
+  busCopy: boolean = false;
+
+  saveState(writer: StateWriter): void {
+    super.saveState(writer);
+    writer.bool(this.busCopy);
+  }
+
+  loadState(reader: StateReader): void {
+    super.loadState(reader);
+    this.busCopy = reader.bool();
+  }
+
+  clock(): void {
+    if (this.bus.reset) this.busCopy = false;
+    if (!this.busCopy && this.bus.flags !== Bus.INTAK) return super.clock();
+
+    this.ticks = (this.ticks + 1) % 4;
+    switch (this.bus.flags) {
+      case Bus.INTAK: {
+        if (this.ticks === 3) {
+          this._readAndDecodeAddr();
+          // Only bother with bus-copy mode if the stack is actually in here:
+          this.busCopy = this._addr != null;
+        }
+        return;
+      }
+      case Bus.DW: {
+        if (this.ticks === 3) this._readDataOnBusToAddr();
+        return;
+      }
+      case Bus.DWS: {
+        if (this.ticks === 3) {
+          this._readDataOnBusToAddr();
+          this._addr = null;
+          this.busCopy = false;
+        }
+        return;
+      }
+      default: {
+        // Nothing gets copied before the write starts:
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type {AudioMessage} from "./AudioOutput";
+import {AudioResampler} from "./AudioResampler";
+import {UnreachableCaseError} from "./UnreachableCaseError";
+
+// The worklet global scope isn't covered by the DOM typings:
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+/**
+ * Receives the PSG's samples from the main thread and plays them back through
+ * an `AudioResampler`.
+ */
+class EmulatorProcessor extends AudioWorkletProcessor {
+  resampler: AudioResampler;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const {latency} = options.processorOptions as {latency: number};
+    // Room for a second of backlog, which is as much as a latency setting
+    // could sensibly ask for:
+    this.resampler = new AudioResampler(
+      Math.round(latency * sampleRate),
+      sampleRate,
+    );
+    this.port.onmessage = ({data}: MessageEvent<AudioMessage>) => {
+      switch (data.type) {
+        case "samples": {
+          this.resampler.push(data.samples);
+          break;
+        }
+        case "latency": {
+          this.resampler.target = Math.round(data.latency * sampleRate);
+          break;
+        }
+        default: {
+          throw new UnreachableCaseError(data);
+        }
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const [channels] = outputs;
+    const [first, ...rest] = channels ?? [];
+    if (!first) return true;
+    this.resampler.render(first);
+    for (const channel of rest) channel.set(first);
+    return true;
+  }
+}
+
+registerProcessor("intv-audio", EmulatorProcessor);
@@ -0,0 +1,246 @@
+import {describe, expect, test} from "vitest";
+import fs from "fs";
+
+import {Bus} from "./Bus";
+import {CfgError, loadBinCfg, parseCfg, readBin} from "./binCfg";
+import {RAM} from "./RAM";
+import {PagedROM} from "./PagedROM";
+import {ROM} from "./ROM";
+
+const bin = (words: number[]) => {
+  const bytes = new Uint8Array(words.length * 2);
+  words.forEach((word, i) => {
+    bytes[i * 2] = word >> 8;
+    bytes[i * 2 + 1] = word & 0xff;
+  });
+  return bytes;
+};
+
+const cfgError = (fn: () => unknown): CfgError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof CfgError) return error;
+    throw error;
+  }
+  throw new Error("Expected a CfgError");
+};
+
+describe("parseCfg", () => {
+  test("parses every section", () => {
+    const cfg = parseCfg(
+      [
+        "; A comment",
+        "[mapping]",
+        "$0000 - $1FFF = $5000",
+        "$2000 - $2FFF = $F000 PAGE 1 ; paged",
+        "",
+        "[MEMATTR]",
+        "$8040 - $9EFF = RAM 16",
+        "[preload]",
+        "$3000 - $30FF = $8040",
+        "[bankswitch]",
+        "$E000 - $EFFF",
+        "[macro]",
+        "p $8040 $1234",
+        "[vars]",
+        'name = "Some Game"',
+      ].join("\n"),
+    );
+    expect(cfg.mapping).toEqual([
+      {line: 3, fileStart: 0, fileEnd: 0x1fff, address: 0x5000, page: null},
+      {line: 4, fileStart: 0x2000, fileEnd: 0x2fff, address: 0xf000, page: 1},
+    ]);
+    expect(cfg.memattr).toEqual([
+      {line: 7, start: 0x8040, end: 0x9eff, width: 16, page: null},
+    ]);
+    expect(cfg.preload).toEqual([
+      {
+        line: 9,
+        fileStart: 0x3000,
+        fileEnd: 0x30ff,
+        address: 0x8040,
+        page: null,
+      },
+    ]);
+    expect(cfg.bankswitch).toEqual([{line: 11, start: 0xe000, end: 0xefff}]);
+    expect(cfg.macro).toEqual([
+      {line: 13, command: "P", args: ["$8040", "$1234"]},
+    ]);
+    expect(cfg.vars).toEqual({name: "Some Game"});
+  });
+
+  test.each([
+    ["$0000 - $0FFF = $5000", 1, 'Expected a [section] before "$0000'],
+    ["[mapping]\n$0000 $0FFF = $5000", 2, "Expected a range"],
+    ["[mapping]\n\n$0000 - $0FFF", 3, 'Expected "$start - $end = $address"'],
+    [
+      "[mapping]\n$1000 - $0FFF = $5000",
+      2,
+      'Range "$1000 - $0FFF" is backwards',
+    ],
+    ["[mapping]\n$0000 - $0FFF = $G000", 2, 'Expected a number, got "$G000"'],
+    ["[mapping]\n$0000 - $0FFF = $5000 BANK 1", 2, 'Unexpected "BANK 1"'],
+    ["[memattr]\n$8000 - $8FFF = RAM 12", 2, "Unsupported RAM width 12"],
+    ["[memattr]\n$8000 - $8FFF = WOM 16", 2, "Unsupported memory attribute"],
+    ["[nope]", 1, "Unknown section [nope]"],
+  ])("reports errors with line numbers: %j", (text, line, message) => {
+    const error = cfgError(() => parseCfg(text));
+    expect(error.line).toBe(line);
+    expect(error.message).toContain(`Line ${line}: ${message}`);
+  });
+});
+
+describe("loadBinCfg", () => {
+  test("reads big-endian words", () => {
+    expect(readBin(Uint8Array.from([0x12, 0x34, 0xab, 0xcd]))).toEqual(
+      Uint16Array.from([0x1234, 0xabcd]),
+    );
+  });
+
+  test("maps multiple segments", () => {
+    const {regions, warnings} = loadBinCfg(
+      new Bus(),
+      bin([0x0001, 0x0002, 0x0003, 0x0004]),
+      "[mapping]\n$0000 - $0001 = $5000\n$0002 - $0003 = $D000\n",
+    );
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x5000, 0x5002],
+      [0xd000, 0xd002],
+    ]);
+    expect(regions[1]!.device).toBeInstanceOf(ROM);
+    expect(regions[1]!.device.read(1)).toBe(0x0004);
+    expect(warnings).toEqual([]);
+  });
+
+  test("creates and preloads RAM", () => {
+    const {regions} = loadBinCfg(
+      new Bus(),
+      bin([0x0001, 0x0002, 0x0103, 0x0004]),
+      [
+        "[mapping]",
+        "$0000 - $0001 = $5000",
+        "$0003 - $0003 = $8003",
+        "[memattr]",
+        "$8000 - $80FF = RAM 8",
+        "[preload]",
+        "$0002 - $0002 = $8001",
+        "[macro]",
+        "P $5001 $1234",
+        "R",
+      ].join("\n"),
+    );
+    const ram = regions.find(({device}) => !(device instanceof ROM))!.device;
+    expect(ram).toBeInstanceOf(RAM);
+    expect((ram as RAM).width).toBe(8);
+    expect((ram as RAM).data.slice(0, 4)).toEqual(
+      Uint16Array.from([0x00, 0x03, 0x00, 0x04]),
+    );
+    expect(regions[1]!.device.read(1)).toBe(0x1234);
+  });
+
+  test.each([
+    ["[mapping]\n$0000 - $0004 = $5000", 2, "past the end of the file"],
+    [
+      "[mapping]\n$0000 - $0001 = $5000\n$0002 - $0003 = $5001",
+      3,
+      "overlaps another segment",
+    ],
+    [
+      "[memattr]\n$8000 - $8FFF = RAM 16 PAGE 1",
+      2,
+      "Paged RAM isn't supported",
+    ],
+    [
+      "[mapping]\n$0000 - $0001 = $5000 PAGE 1\n$0002 - $0003 = $5800",
+      3,
+      "overlaps another segment",
+    ],
+    [
+      "[memattr]\n$8000 - $8001 = RAM 16\n[preload]\n$0000 - $0003 = $8000",
+      4,
+      "doesn't fit",
+    ],
+  ])("reports errors with line numbers: %j", (text, line, message) => {
+    const error = cfgError(() =>
+      loadBinCfg(new Bus(), bin([1, 2, 3, 4]), text),
+    );
+    expect(error.line).toBe(line);
+    expect(error.message).toContain(message);
+  });
+
+  test("loads bank-switched segments as plain ROM, with a warning", () => {
+    const {regions, warnings} = loadBinCfg(
+      new Bus(),
+      bin([0x0001, 0x0002]),
+      [
+        "[mapping]",
+        "$0000 - $0001 = $E000",
+        "[bankswitch]",
+        "$E000 - $EFFF",
+      ].join("\n"),
+    );
+    expect(regions[0]!.device).toBeInstanceOf(ROM);
+    expect(regions[0]!.device.read(1)).toBe(0x0002);
+    expect(warnings).toEqual([
+      "Line 4: Bank switching at $E000-$EFFF isn't supported; ignoring it",
+    ]);
+  });
+
+  test("pokes hex, as jzIntv's macros do", () => {
+    const {regions} = loadBinCfg(
+      new Bus(),
+      bin([0x0001, 0x0002]),
+      [
+        "[mapping]",
+        "$0000 - $0001 = $5000",
+        "[macro]",
+        "; Patch the second word:",
+        "P 5001 ABCD",
+      ].join("\n"),
+    );
+    expect(regions[0]!.device.read(1)).toBe(0xabcd);
+
+    const error = cfgError(() =>
+      loadBinCfg(new Bus(), bin([0x0001]), "[macro]\nP 5000 12345"),
+    );
+    expect(error.line).toBe(2);
+    expect(error.message).toContain(`Expected a hex number, got "12345"`);
+  });
+
+  test("collects paged segments into PagedROMs", () => {
+    const {regions} = loadBinCfg(
+      new Bus(),
+      bin([0x0001, 0x0002, 0x0003, 0x0004]),
+      [
+        "[mapping]",
+        "$0000 - $0000 = $6000 PAGE 0",
+        "$0001 - $0001 = $6000 PAGE 1",
+        // Straddles two segments:
+        "$0002 - $0003 = $6FFF PAGE 1",
+      ].join("\n"),
+    );
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x6000, 0x7000],
+      [0x7000, 0x8000],
+    ]);
+    const [first, second] = regions.map(({device}) => device as PagedROM);
+    expect(first!.read(0)).toBe(0x0001);
+    first!.write(0x0fff, 0x6a51);
+    expect(first!.read(0)).toBe(0x0002);
+    expect(first!.read(0x0fff)).toBe(0x0003);
+    second!.write(0x0fff, 0x7a51);
+    expect(second!.read(0)).toBe(0x0004);
+  });
+
+  test("loads the test ROMs", () => {
+    const {regions} = loadBinCfg(
+      new Bus(),
+      fs.readFileSync("./test-roms/instructions.bin"),
+      fs.readFileSync("./test-roms/instructions.cfg", "utf-8"),
+    );
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x4800, 0x4cf9],
+    ]);
+  });
+});
@@ -0,0 +1,432 @@
+import {Bus} from "./Bus";
+import {MemoryDevice, MemoryRegion} from "./MemoryMap";
+import {PagedROM} from "./PagedROM";
+import {DataWidth, RAM} from "./RAM";
+import {ROM} from "./ROM";
+
+/**
+ * Loader for `.bin` + `.cfg` cartridge images, as emitted by as1600 and
+ * understood by jzIntv.
+ *
+ * The `.bin` is a flat image of big-endian 16-bit words; the `.cfg` describes
+ * where those words go:
+ *
+ * ```
+ * [mapping]
+ * $0000 - $1FFF = $5000        ; file words $0000-$1FFF at $5000-$6FFF
+ * $2000 - $2FFF = $F000 PAGE 1 ; ECS-style paged ROM
+ *
+ * [memattr]
+ * $8040 - $9EFF = RAM 16       ; extra RAM on the cartridge
+ *
+ * [preload]
+ * $3000 - $30FF = $8040        ; initial contents of that RAM
+ *
+ * [bankswitch]
+ * $E000 - $EFFF                ; Intellicart-style bank switching (ignored)
+ *
+ * [macro]
+ * P 8040 1234                  ; jzIntv debugger commands run at load time
+ *
+ * [vars]
+ * name = "Some Game"
+ * ```
+ *
+ * All ranges are inclusive, as in the files themselves.
+ */
+
+// Each entry remembers the `.cfg` line it came from for error reporting, or 0
+// if it was built some other way.
+
+export type CfgMapping = Readonly<{
+  line: number;
+  /** First word of the `.bin` to map. */
+  fileStart: number;
+  /** Last word of the `.bin` to map. */
+  fileEnd: number;
+  address: number;
+  page: number | null;
+}>;
+
+export type CfgMemAttr = Readonly<{
+  line: number;
+  start: number;
+  end: number;
+  width: DataWidth;
+  page: number | null;
+}>;
+
+export type CfgBankswitch = Readonly<{
+  line: number;
+  start: number;
+  end: number;
+}>;
+
+export type CfgMacro = Readonly<{
+  line: number;
+  command: string;
+  args: ReadonlyArray<string>;
+}>;
+
+export type Cfg = Readonly<{
+  mapping: ReadonlyArray<CfgMapping>;
+  memattr: ReadonlyArray<CfgMemAttr>;
+  bankswitch: ReadonlyArray<CfgBankswitch>;
+  preload: ReadonlyArray<CfgMapping>;
+  macro: ReadonlyArray<CfgMacro>;
+  vars: Readonly<Record<string, string>>;
+}>;
+
+/** The memory devices a cartridge image describes. */
+export type CartridgeMemory = Readonly<{
+  /** Ready to be added to a `MemoryMap`. */
+  regions: MemoryRegion[];
+  /** Parts of the image that are loaded, but not quite as they should be. */
+  warnings: ReadonlyArray<string>;
+}>;
+
+export class CfgError extends Error {
+  /** Line of the `.cfg` at fault, or 0 if the config didn't come from one. */
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(line > 0 ? `Line ${line}: ${message}` : message);
+    this.line = line;
+  }
+}
+
+const formatAddr = (addr: number) =>
+  "$" + addr.toString(16).padStart(4, "0").toUpperCase();
+
+const SECTIONS = [
+  "mapping",
+  "memattr",
+  "bankswitch",
+  "preload",
+  "macro",
+  "vars",
+] as const;
+type Section = (typeof SECTIONS)[number];
+
+const isSection = (name: string): name is Section =>
+  (SECTIONS as ReadonlyArray<string>).includes(name);
+
+const isDataWidth = (width: number): width is DataWidth =>
+  width === 8 || width === 10 || width === 16;
+
+const parseNumber = (line: number, str: string | undefined): number => {
+  const value = str?.startsWith("$")
+    ? parseInt(str.slice(1), 16)
+    : str?.match(/^\d+$/)
+      ? parseInt(str, 10)
+      : NaN;
+  if (Number.isNaN(value) || value < 0 || value > 0xffff) {
+    throw new CfgError(line, `Expected a number, got "${str ?? ""}"`);
+  }
+  return value;
+};
+
+/** jzIntv's macro arguments are hex, whether or not they start with `$`. */
+const parseHex = (line: number, str: string | undefined): number => {
+  const digits = str?.replace(/^\$/, "") ?? "";
+  const value = /^[0-9a-f]{1,4}$/i.test(digits) ? parseInt(digits, 16) : NaN;
+  if (Number.isNaN(value)) {
+    throw new CfgError(line, `Expected a hex number, got "${str ?? ""}"`);
+  }
+  return value;
+};
+
+const parseRange = (line: number, range: string): [number, number] => {
+  const match = range.match(/^(\S+)\s*-\s*(\S+)$/);
+  if (!match) throw new CfgError(line, `Expected a range, got "${range}"`);
+  const start = parseNumber(line, match[1]);
+  const end = parseNumber(line, match[2]);
+  if (end < start) throw new CfgError(line, `Range "${range}" is backwards`);
+  return [start, end];
+};
+
+/** Parses trailing `PAGE n` attributes. */
+const parsePage = (line: number, words: string[]): number | null => {
+  if (words.length === 0) return null;
+  if (words.length !== 2 || words[0]?.toUpperCase() !== "PAGE") {
+    throw new CfgError(line, `Unexpected "${words.join(" ")}"`);
+  }
+  const page = parseNumber(line, words[1]);
+  if (page > 0xf) throw new CfgError(line, `Invalid page ${page}`);
+  return page;
+};
+
+const parseMapping = (line: number, text: string): CfgMapping => {
+  const [range = "", target = ""] = text.split("=").map((s) => s.trim());
+  if (!text.includes("=")) {
+    throw new CfgError(line, `Expected "$start - $end = $address"`);
+  }
+  const [fileStart, fileEnd] = parseRange(line, range);
+  const [address, ...rest] = target.split(/\s+/);
+  const mapping = {
+    line,
+    fileStart,
+    fileEnd,
+    address: parseNumber(line, address),
+    page: parsePage(line, rest),
+  };
+  if (mapping.address + (fileEnd - fileStart) > 0xffff) {
+    throw new CfgError(line, `Mapping runs off the end of memory`);
+  }
+  return mapping;
+};
+
+const parseMemAttr = (line: number, text: string): CfgMemAttr => {
+  const [range = "", attr = ""] = text.split("=").map((s) => s.trim());
+  if (!text.includes("=")) {
+    throw new CfgError(line, `Expected "$start - $end = RAM width"`);
+  }
+  const [start, end] = parseRange(line, range);
+  const [kind = "", widthStr, ...rest] = attr.split(/\s+/);
+  if (kind.toUpperCase() !== "RAM") {
+    throw new CfgError(line, `Unsupported memory attribute "${kind}"`);
+  }
+  const width = parseNumber(line, widthStr);
+  if (!isDataWidth(width)) {
+    throw new CfgError(line, `Unsupported RAM width ${width}`);
+  }
+  return {line, start, end, width, page: parsePage(line, rest)};
+};
+
+export const parseCfg = (text: string): Cfg => {
+  const mapping: CfgMapping[] = [];
+  const memattr: CfgMemAttr[] = [];
+  const bankswitch: CfgBankswitch[] = [];
+  const preload: CfgMapping[] = [];
+  const macro: CfgMacro[] = [];
+  const vars: Record<string, string> = {};
+
+  let section: Section | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const text = rawLine.replace(/;.*$/, "").trim();
+    if (text === "") return;
+
+    const header = text.match(/^\[(.*)\]$/);
+    if (header) {
+      const name = header[1]!.trim().toLowerCase();
+      if (!isSection(name)) {
+        throw new CfgError(line, `Unknown section [${name}]`);
+      }
+      section = name;
+      return;
+    }
+
+    switch (section) {
+      case null: {
+        throw new CfgError(line, `Expected a [section] before "${text}"`);
+      }
+      case "mapping": {
+        mapping.push(parseMapping(line, text));
+        return;
+      }
+      case "preload": {
+        const entry = parseMapping(line, text);
+        if (entry.page != null) {
+          throw new CfgError(line, `Preloads can't be paged`);
+        }
+        preload.push(entry);
+        return;
+      }
+      case "memattr": {
+        memattr.push(parseMemAttr(line, text));
+        return;
+      }
+      case "bankswitch": {
+        const [start, end] = parseRange(line, text);
+        bankswitch.push({line, start, end});
+        return;
+      }
+      case "macro": {
+        const [command = "", ...args] = text.split(/\s+/);
+        macro.push({line, command: command.toUpperCase(), args});
+        return;
+      }
+      case "vars": {
+        const match = text.match(/^(\w+)\s*=\s*(.*)$/);
+        if (!match) throw new CfgError(line, `Expected "name = value"`);
+        vars[match[1]!] = match[2]!.replace(/^"(.*)"$/, "$1");
+        return;
+      }
+    }
+  });
+
+  return {mapping, memattr, bankswitch, preload, macro, vars};
+};
+
+/** Reads a `.bin` image: big-endian 16-bit words. */
+export const readBin = (bytes: Uint8Array): Uint16Array => {
+  const words = new Uint16Array(bytes.length >> 1);
+  for (let i = 0; i < words.length; ++i) {
+    words[i] = (bytes[i * 2]! << 8) | bytes[i * 2 + 1]!;
+  }
+  return words;
+};
+
+const overlaps = (
+  a: {start: number; end: number},
+  b: {start: number; end: number},
+) => a.start < b.end && b.start < a.end;
+
+/** Builds the memory devices described by a `.bin` + `.cfg` pair. */
+export const loadBinCfg = (
+  bus: Bus,
+  bin: Uint8Array,
+  cfg: string | Cfg,
+): CartridgeMemory =>
+  buildCartridge(
+    bus,
+    readBin(bin),
+    typeof cfg === "string" ? parseCfg(cfg) : cfg,
+  );
+
+/**
+ * Builds the memory devices described by `config`, taking data from `words`.
+ *
+ * Mapped segments become 16-bit `ROM`s, except where they fall inside a
+ * `[memattr]` RAM, in which case they're treated like `[preload]`s and copied
+ * into it. `PAGE`d segments are collected into a `PagedROM` per 4K segment.
+ * `P` (poke) macros are applied afterwards; other macros are debugger
+ * commands, and are ignored. `[bankswitch]` ranges are left as they are at
+ * power-up, with a warning.
+ */
+export const buildCartridge = (
+  bus: Bus,
+  words: Uint16Array,
+  config: Cfg,
+): CartridgeMemory => {
+  const regions: {device: MemoryDevice; start: number; end: number}[] = [];
+  const warnings: string[] = [];
+  const pagedRoms = new Map<number, PagedROM>();
+
+  const fileWords = ({line, fileStart, fileEnd}: CfgMapping) => {
+    if (fileEnd >= words.length) {
+      throw new CfgError(
+        line,
+        `Segment ends past the end of the file ($${words.length
+          .toString(16)
+          .toUpperCase()
+          .padStart(4, "0")} words)`,
+      );
+    }
+    return words.slice(fileStart, fileEnd + 1);
+  };
+
+  const add = (
+    device: MemoryDevice,
+    start: number,
+    end: number,
+    line: number,
+  ) => {
+    const region = {device, start, end};
+    if (regions.some((other) => overlaps(region, other))) {
+      throw new CfgError(line, `Segment overlaps another segment`);
+    }
+    regions.push(region);
+  };
+
+  for (const {line, page} of config.memattr) {
+    if (page != null) throw new CfgError(line, `Paged RAM isn't supported`);
+  }
+  // Intellicart bank switching isn't emulated, but the segments involved can
+  // still be loaded as they are at power-up, which is enough for some games:
+  for (const {line, start, end} of config.bankswitch) {
+    const message = `Bank switching at ${formatAddr(start)}-${formatAddr(
+      end,
+    )} isn't supported; ignoring it`;
+    warnings.push(line > 0 ? `Line ${line}: ${message}` : message);
+  }
+
+  for (const {line, start, end, width} of config.memattr) {
+    add(new RAM(bus, start, end + 1, width), start, end + 1, line);
+  }
+
+  const ramAt = (address: number) =>
+    regions
+      .map(({device}) => device)
+      .find(
+        (device): device is RAM =>
+          device instanceof RAM &&
+          !(device instanceof ROM) &&
+          address >= device.start &&
+          address < device.start + device.data.length,
+      ) ?? null;
+
+  const preload = (entry: CfgMapping) => {
+    const data = fileWords(entry);
+    const ram = ramAt(entry.address);
+    if (
+      ram == null ||
+      entry.address + data.length > ram.start + ram.data.length
+    ) {
+      throw new CfgError(entry.line, `Preload doesn't fit in any RAM`);
+    }
+    data.forEach((word, i) => ram.write(entry.address - ram.start + i, word));
+  };
+
+  const loadPaged = (entry: CfgMapping & {page: number}) => {
+    const data = fileWords(entry);
+    // Split the data up at 4K boundaries, since each segment pages separately:
+    for (let i = 0; i < data.length; ) {
+      const address = entry.address + i;
+      const segment = address >> 12;
+      const offset = address & (PagedROM.PAGE_SIZE - 1);
+      const length = Math.min(data.length - i, PagedROM.PAGE_SIZE - offset);
+      let rom = pagedRoms.get(segment);
+      if (rom == null) {
+        rom = new PagedROM(segment);
+        add(rom, rom.start, rom.start + PagedROM.PAGE_SIZE, entry.line);
+        pagedRoms.set(segment, rom);
+      }
+      rom.load(entry.page, offset, data.subarray(i, i + length));
+      i += length;
+    }
+  };
+
+  for (const entry of config.mapping) {
+    if (entry.page != null) {
+      loadPaged({...entry, page: entry.page});
+      continue;
+    }
+    if (ramAt(entry.address) != null) {
+      preload(entry);
+      continue;
+    }
+    const data = fileWords(entry);
+    add(
+      new ROM(bus, entry.address, data),
+      entry.address,
+      entry.address + data.length,
+      entry.line,
+    );
+  }
+  config.preload.forEach(preload);
+
+  for (const {line, command, args} of config.macro) {
+    if (command !== "P") continue;
+    const address = parseHex(line, args[0]);
+    const data = parseHex(line, args[1]);
+    const region = regions.find(
+      ({start, end}) => address >= start && address < end,
+    );
+    if (region == null) {
+      throw new CfgError(line, `Nothing to poke at ${formatAddr(address)}`);
+    }
+    if (!(region.device instanceof RAM)) {
+      throw new CfgError(
+        line,
+        `Can't poke paged ROM at ${formatAddr(address)}`,
+      );
+    }
+    // Write straight into `data` so that pokes work on ROM too:
+    region.device.data[address - region.start] = data;
+  }
+
+  return {regions, warnings};
+};
@@ -0,0 +1,92 @@
+import {describe, expect, test} from "vitest";
+import fs from "fs";
+
+import {Bus} from "./Bus";
+import {detectCartridgeFormat, loadCartridge} from "./cartridge";
+import {crc16} from "./intellicart";
+import {crc8} from "./luigi";
+
+const bin = (words: number[]) =>
+  Uint8Array.from(words.flatMap((word) => [word >> 8, word & 0xff]));
+
+const emptyRom = () => {
+  const tables = new Array(48).fill(0);
+  const crc = crc16(Uint8Array.from(tables));
+  return Uint8Array.from([0xa8, 0, 0xff, ...tables, crc >> 8, crc & 0xff]);
+};
+
+/** Header and EOF block only. */
+const emptyLuigi = () => {
+  const header = new Uint8Array(32);
+  header.set([0x4c, 0x54, 0x4f, 0]);
+  header[31] = crc8(header.subarray(0, 31));
+  const eof = [0xff, 0, 0];
+  // The CRC-32 of an empty payload is 0:
+  return Uint8Array.from([
+    ...header,
+    ...eof,
+    crc8(Uint8Array.from(eof)),
+    0,
+    0,
+    0,
+    0,
+  ]);
+};
+
+describe("loadCartridge", () => {
+  test("detects formats by content", () => {
+    expect(detectCartridgeFormat(emptyLuigi())).toBe("luigi");
+    expect(detectCartridgeFormat(emptyRom())).toBe("rom");
+    expect(detectCartridgeFormat(bin([0xa800, 0x0001]))).toBe("bin");
+    expect(
+      detectCartridgeFormat(fs.readFileSync("./test-roms/instructions.bin")),
+    ).toBe("bin");
+  });
+
+  test("maps a .bin without a .cfg like jzIntv does", () => {
+    const words = new Array(0x2800).fill(0).map((_, i) => i);
+    const {format, regions} = loadCartridge(new Bus(), bin(words));
+    expect(format).toBe("bin");
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x5000, 0x7000],
+      [0xd000, 0xd800],
+    ]);
+    expect(regions[1]!.device.read(0)).toBe(0x2000);
+  });
+
+  test("takes metadata from .cfg vars", () => {
+    const {metadata} = loadCartridge(
+      new Bus(),
+      bin([1]),
+      '[mapping]\n$0000 - $0000 = $5000\n[vars]\nname = "Test"\nyear = 2024\n',
+    );
+    expect(metadata).toEqual({
+      title: "Test",
+      authors: [],
+      publishers: [],
+      year: 2024,
+    });
+  });
+
+  test("passes on loading warnings", () => {
+    const {warnings} = loadCartridge(
+      new Bus(),
+      bin([1]),
+      "[mapping]\n$0000 - $0000 = $E000\n[bankswitch]\n$E000 - $EFFF\n",
+    );
+    expect(warnings).toEqual([
+      "Line 4: Bank switching at $E000-$EFFF isn't supported; ignoring it",
+    ]);
+  });
+
+  test("loads LUIGI and .rom images", () => {
+    const luigi = loadCartridge(new Bus(), emptyLuigi());
+    expect(luigi.format).toBe("luigi");
+    expect(luigi.features).not.toBeNull();
+    expect(luigi.regions).toEqual([]);
+
+    const rom = loadCartridge(new Bus(), emptyRom());
+    expect(rom.format).toBe("rom");
+    expect(rom.regions).toEqual([]);
+  });
+});
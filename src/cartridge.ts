@@ -0,0 +1,138 @@
+import {Bus} from "./Bus";
+import {UnreachableCaseError} from "./UnreachableCaseError";
+import {
+  CartridgeMemory,
+  Cfg,
+  CfgMapping,
+  buildCartridge,
+  parseCfg,
+  readBin,
+} from "./binCfg";
+import {parseRom} from "./intellicart";
+import {LuigiFeatures, isLuigi, parseLuigi} from "./luigi";
+
+export type CartridgeFormat = "luigi" | "rom" | "bin";
+
+export type CartridgeMetadata = Readonly<{
+  title: string | null;
+  authors: ReadonlyArray<string>;
+  publishers: ReadonlyArray<string>;
+  year: number | null;
+}>;
+
+export type Cartridge = CartridgeMemory &
+  Readonly<{
+    format: CartridgeFormat;
+    metadata: CartridgeMetadata;
+    /** Only LUIGI images carry feature flags. */
+    features: LuigiFeatures | null;
+  }>;
+
+/**
+ * Where jzIntv puts a `.bin` (or `.int`, or `.itv`) that doesn't come with a
+ * `.cfg`: the first 8K at $5000, then 4K at $D000, then 4K at $F000.
+ */
+export const DEFAULT_BIN_MAPPING: ReadonlyArray<
+  Readonly<{fileStart: number; fileEnd: number; address: number}>
+> = [
+  {fileStart: 0x0000, fileEnd: 0x1fff, address: 0x5000},
+  {fileStart: 0x2000, fileEnd: 0x2fff, address: 0xd000},
+  {fileStart: 0x3000, fileEnd: 0x3fff, address: 0xf000},
+];
+
+/** Works out what kind of image `bytes` is from its contents alone. */
+export const detectCartridgeFormat = (bytes: Uint8Array): CartridgeFormat => {
+  if (isLuigi(bytes)) return "luigi";
+  if (
+    bytes.length >= 3 &&
+    (bytes[0] === 0xa8 || bytes[0] === 0x41) &&
+    (bytes[1]! ^ 0xff) === bytes[2]
+  ) {
+    return "rom";
+  }
+  return "bin";
+};
+
+const defaultCfg = (words: Uint16Array): Cfg => ({
+  mapping: DEFAULT_BIN_MAPPING.filter(
+    ({fileStart}) => fileStart < words.length,
+  ).map(
+    ({fileStart, fileEnd, address}): CfgMapping => ({
+      line: 0,
+      fileStart,
+      fileEnd: Math.min(fileEnd, words.length - 1),
+      address,
+      page: null,
+    }),
+  ),
+  memattr: [],
+  bankswitch: [],
+  preload: [],
+  macro: [],
+  vars: {},
+});
+
+const EMPTY_METADATA: CartridgeMetadata = {
+  title: null,
+  authors: [],
+  publishers: [],
+  year: null,
+};
+
+/**
+ * Loads a cartridge image of any supported format: LUIGI, Intellicart `.rom`,
+ * or `.bin`/`.int`/`.itv` with or without a `.cfg`.
+ *
+ * `cfg` is only used for `.bin`-style images.
+ */
+export const loadCartridge = (
+  bus: Bus,
+  bytes: Uint8Array,
+  cfg?: string,
+): Cartridge => {
+  const format = detectCartridgeFormat(bytes);
+  switch (format) {
+    case "luigi": {
+      const {features, metadata, words, cfg} = parseLuigi(bytes);
+      return {
+        format,
+        features,
+        metadata: {
+          title: metadata.name,
+          authors: metadata.authors,
+          publishers: metadata.publishers,
+          year: metadata.year,
+        },
+        ...buildCartridge(bus, words, cfg),
+      };
+    }
+    case "rom": {
+      const {words, cfg} = parseRom(bytes);
+      return {
+        format,
+        features: null,
+        metadata: EMPTY_METADATA,
+        ...buildCartridge(bus, words, cfg),
+      };
+    }
+    case "bin": {
+      const words = readBin(bytes);
+      const config = cfg != null ? parseCfg(cfg) : defaultCfg(words);
+      const {name, author, publisher, year} = config.vars;
+      return {
+        format,
+        features: null,
+        metadata: {
+          title: name ?? null,
+          authors: author != null ? [author] : [],
+          publishers: publisher != null ? [publisher] : [],
+          year: year != null && /^\d+$/.test(year) ? parseInt(year, 10) : null,
+        },
+        ...buildCartridge(bus, words, config),
+      };
+    }
+    default: {
+      throw new UnreachableCaseError(format);
+    }
+  }
+};
@@ -3,33 +3,20 @@ import fs from "fs";
 import glob from "glob-promise";
 
 import {ROM} from "./ROM";
-import {RAM} from "./RAM";
+import {DataWidth, RAM} from "./RAM";
 import {Bus, BusDevice} from "./Bus";
 import {UnreachableCaseError} from "./UnreachableCaseError";
 import {CP1610} from "./cp1610";
+import {CycleValidator} from "./CycleValidator";
+import {Machine} from "./Machine";
+import {MemoryMap} from "./MemoryMap";
+import {loadBinCfg, readBin} from "./binCfg";
 import {decodeOpcode} from "./decodeOpcode";
 import {trace} from "./trace";
 
-const readRomIntoUint16Array = (path: string) => {
-  const romBuffer = fs.readFileSync(path);
-  const romData = new Uint16Array(romBuffer.length / 2);
-  for (let i = 0; i < romBuffer.length; i += 2) {
-    romData[i / 2] = (romBuffer[i]! << 8) | romBuffer[i + 1]!;
-  }
-  return romData;
-};
-
 const $word = (n: number) => "$" + word(n);
 const word = (n: number) => n.toString(16).toUpperCase().padStart(4, "0");
 
-const getMappingStartFromCfg = async (path: string): Promise<number> => {
-  const configText = await fs.promises.readFile(path, "utf-8");
-  // prettier-ignore
-  const startStr = configText.split('\n')[1]?.split(' ')[4]?.slice(1);
-  if (!startStr) throw new Error(`Failed to get mapping start from "${path}"`);
-  return parseInt(startStr, 16);
-};
-
 // This data was derived from running a `D`ump command in jzIntv and inspecting `dump.cpu`:
 // prettier-ignore
 const cacheabilityMap = [
@@ -350,6 +337,7 @@ describe("jzIntv fixtures", async () => {
               // current address. For all other devices in the system, INTAK is
               // remapped to BAR by some discrete logic, and so is processed as a
               // normal addressing cycle elsewhere.
+              if (this.ticks === 3) this.addr = this.bus.data;
               return;
             }
             case Bus.___: {
@@ -390,19 +378,23 @@ describe("jzIntv fixtures", async () => {
       const cpu = new CP1610(bus);
       const log: string[] = [];
       const busSniffer = new BusSniffer(bus, (busLog) => log.push(busLog));
-      const devices = [
-        cpu,
+      const exec = readBin(fs.readFileSync("./roms/exec.bin"));
+      const memory = new MemoryMap(bus, [
         // Rough approximation of various RAM devices:
-        new RAM(bus, 0x0000, 0x1000),
+        {device: new RAM(bus, 0x0000, 0x1000), start: 0x0000, end: 0x1000},
         // Rough approximation of EXEC ROM:
-        new ROM(bus, 0x1000, readRomIntoUint16Array("./roms/exec.bin")),
-        new ROM(
+        {
+          device: new ROM(bus, 0x1000, exec),
+          start: 0x1000,
+          end: 0x1000 + exec.length,
+        },
+        ...loadBinCfg(
           bus,
-          await getMappingStartFromCfg(romPath.replace(/.bin$/, ".cfg")),
-          readRomIntoUint16Array(romPath),
-        ),
-        busSniffer,
-      ];
+          fs.readFileSync(romPath),
+          await fs.promises.readFile(romPath.replace(/.bin$/, ".cfg"), "utf-8"),
+        ).regions,
+      ]);
+      const devices = [cpu, memory, busSniffer];
       let cycles = 0;
       const tick = () => {
         cycles += 1;
@@ -425,13 +417,7 @@ describe("jzIntv fixtures", async () => {
         }
       };
 
-      const peekBus = (addr: number) => {
-        for (const device of devices) {
-          const data = device.debug_read(addr);
-          if (data != null) return data;
-        }
-        return 0xffff;
-      };
+      const peekBus = (addr: number) => memory.debug_read(addr) ?? 0xffff;
       const peekBusSDBD = (addr: number) => {
         return ((peekBus(addr + 1) & 0x00ff) << 8) | (peekBus(addr) & 0x00ff);
       };
@@ -745,3 +731,411 @@ describe("jzIntv fixtures", async () => {
     });
   }
 });
+
+/**
+ * Minimal system for exercising the CPU without any external ROM images: a
+ * program is loaded into ROM at the reset vector, backed by RAM everywhere
+ * below it.
+ */
+const createTestSystem = (
+  program: number[],
+  createDevices: (bus: Bus, cpu: CP1610) => BusDevice[] = () => [],
+  width: DataWidth = 16,
+) => {
+  const bus = new Bus();
+  const cpu = new CP1610(bus);
+  const ram = new RAM(bus, 0x0000, CP1610.RESET_VECTOR);
+  const rom = new ROM(
+    bus,
+    CP1610.RESET_VECTOR,
+    Uint16Array.from(program),
+    width,
+  );
+  const memory = new MemoryMap(bus)
+    .add(ram, 0x0000, CP1610.RESET_VECTOR)
+    .add(rom, CP1610.RESET_VECTOR, CP1610.RESET_VECTOR + program.length);
+  const machine = new Machine(bus, cpu, [memory, ...createDevices(bus, cpu)]);
+  const tick = () => machine.tick();
+  const runUntilHalted = (maxTicks = 10_000) => {
+    for (let i = 0; i < maxTicks && !cpu.halted; ++i) tick();
+    if (!cpu.halted) throw new Error("CPU did not halt");
+  };
+  return {bus, cpu, ram, memory, machine, tick, runUntilHalted};
+};
+
+/**
+ * Stand-in for the STIC (or any other interrupt controller): raises INTRM a
+ * given number of times, dropping it whenever the CPU acknowledges a request.
+ *
+ * When `waitForTci` is set, the next request is held back until the current
+ * one has been terminated with TCI, like a priority interrupt controller would.
+ */
+class InterruptSource implements BusDevice {
+  bus: Bus;
+  requests: number;
+  waitForTci: boolean;
+  acknowledged: number = 0;
+  terminated: number = 0;
+  #inService: boolean = false;
+  #tci: boolean = false;
+
+  constructor(bus: Bus, requests: number = 1, waitForTci: boolean = false) {
+    this.bus = bus;
+    this.requests = requests;
+    this.waitForTci = waitForTci;
+  }
+
+  clock(): void {
+    // Only count the first time slot of each INTAK phase:
+    if (this.bus.flags === Bus.INTAK && this.bus.ticks === 0) {
+      this.bus.intrm = false;
+      this.acknowledged += 1;
+      this.#inService = true;
+    }
+    if (this.bus.tci && !this.#tci) {
+      this.terminated += 1;
+      this.#inService = false;
+    }
+    this.#tci = this.bus.tci;
+
+    const pending = this.acknowledged < this.requests;
+    if (pending && !(this.waitForTci && this.#inService)) {
+      this.bus.intrm = true;
+    }
+  }
+
+  debug_read(_addr: number): number | null {
+    return null;
+  }
+}
+
+describe("interrupts", () => {
+  // prettier-ignore
+  const program = (enable: boolean) => [
+    /* $1000 */ enable ? 0x0002 /* EIS */ : 0x0003 /* DIS */,
+    /* $1001 */ 0x02be, 0x0200, // MVII #$0200,R6
+    /* $1003 */ 0x0008, // INCR R0
+    /* $1004 */ 0x0009, // INCR R1 (interrupt service routine)
+    /* $1005 */ 0x0000, // HLT
+  ];
+
+  test("INTRM pushes R7 and jumps to the interrupt vector", () => {
+    let source: InterruptSource | null = null;
+    const {cpu, ram, runUntilHalted} = createTestSystem(
+      program(true),
+      (bus) => [(source = new InterruptSource(bus))],
+    );
+    runUntilHalted();
+    expect(source!.acknowledged).toEqual(1);
+    expect(cpu.r[0]).toEqual(0);
+    expect(cpu.r[1]).toEqual(1);
+    expect(cpu.r[6]).toEqual(0x0201);
+    expect(ram.data[0x0200]).toEqual(0x1003);
+  });
+
+  test("instructions from a 10-bit ROM decode, and can be interrupted", () => {
+    let source: InterruptSource | null = null;
+    const {cpu, ram, runUntilHalted} = createTestSystem(
+      program(true),
+      (bus) => [(source = new InterruptSource(bus))],
+      10,
+    );
+    runUntilHalted();
+    expect(source!.acknowledged).toEqual(1);
+    expect(cpu.r[0]).toEqual(0);
+    expect(cpu.r[1]).toEqual(1);
+    expect(cpu.r[6]).toEqual(0x0201);
+    expect(ram.data[0x0200]).toEqual(0x1003);
+  });
+
+  test("INTRM is ignored while interrupts are disabled", () => {
+    let source: InterruptSource | null = null;
+    const {cpu, ram, runUntilHalted} = createTestSystem(
+      program(false),
+      (bus) => [(source = new InterruptSource(bus))],
+    );
+    runUntilHalted();
+    expect(source!.acknowledged).toEqual(0);
+    expect(cpu.r[0]).toEqual(1);
+    expect(cpu.r[1]).toEqual(1);
+    expect(cpu.r[6]).toEqual(0x0200);
+    expect(ram.data[0x0200]).toEqual(0);
+  });
+
+  // prettier-ignore
+  const nestingProgram = [
+    /* $1000 */ 0x0200, 0x000e, // B $1010
+    /* $1002 */ 0x0000, 0x0000,
+    // Interrupt service routine:
+    /* $1004 */ 0x0003, // DIS
+    /* $1005 */ 0x0009, // INCR R1
+    /* $1006 */ 0x0002, // EIS
+    /* $1007 */ 0x000a, // INCR R2
+    /* $1008 */ 0x0005, // TCI
+    /* $1009 */ 0x02b7, // PULR R7
+    /* $100A */ 0x0000, 0x0000, 0x0000, 0x0000, 0x0000, 0x0000,
+    // Main program:
+    /* $1010 */ 0x02be, 0x0200, // MVII #$0200,R6
+    /* $1012 */ 0x0002, // EIS
+    /* $1013 */ 0x0008, // INCR R0
+    /* $1014 */ 0x0008, // INCR R0
+    /* $1015 */ 0x0000, // HLT
+  ];
+
+  test("EIS inside a service routine allows interrupts to nest", () => {
+    let source: InterruptSource | null = null;
+    const {cpu, ram, tick} = createTestSystem(nestingProgram, (bus) => [
+      (source = new InterruptSource(bus, 2)),
+    ]);
+    let maxDepth = 0;
+    while (!cpu.halted) {
+      tick();
+      maxDepth = Math.max(maxDepth, cpu.interruptDepth);
+    }
+    expect(source!.acknowledged).toEqual(2);
+    expect(source!.terminated).toEqual(2);
+    expect(maxDepth).toEqual(2);
+    expect(cpu.interruptDepth).toEqual(0);
+    expect(cpu.r.slice(0, 3)).toEqual(Uint16Array.from([2, 2, 2]));
+    expect(cpu.r[6]).toEqual(0x0200);
+    // The DIS at the top of the service routine holds off the second request
+    // until the EIS, so the nested interrupt returns to just after INCR R2:
+    expect(ram.data[0x0200]).toEqual(0x1014);
+    expect(ram.data[0x0201]).toEqual(0x1008);
+  });
+
+  test("TCI lets an interrupt controller hold off nested requests", () => {
+    let source: InterruptSource | null = null;
+    const {cpu, ram, tick} = createTestSystem(nestingProgram, (bus) => [
+      (source = new InterruptSource(bus, 2, true)),
+    ]);
+    let maxDepth = 0;
+    while (!cpu.halted) {
+      tick();
+      maxDepth = Math.max(maxDepth, cpu.interruptDepth);
+    }
+    expect(source!.acknowledged).toEqual(2);
+    expect(source!.terminated).toEqual(2);
+    expect(maxDepth).toEqual(1);
+    expect(cpu.interruptDepth).toEqual(0);
+    expect(cpu.r.slice(0, 3)).toEqual(Uint16Array.from([2, 2, 2]));
+    // The second request is taken as soon as the first service routine
+    // returns, so it returns to the same place:
+    expect(ram.data[0x0200]).toEqual(0x1014);
+  });
+});
+
+/**
+ * Stand-in for STIC-style DMA: steals the bus to read a single word.
+ */
+class DmaReader implements BusDevice {
+  bus: Bus;
+  addr: number;
+  data: number | null = null;
+  masterCycles: number = 0;
+  #cycle: number = -1;
+
+  constructor(bus: Bus, addr: number) {
+    this.bus = bus;
+    this.addr = addr;
+    this.bus.requestBus(this, 3);
+  }
+
+  clock(): void {
+    if (!this.bus.isMaster(this)) return;
+    if (this.bus.ticks === 0) {
+      this.#cycle += 1;
+      this.masterCycles += 1;
+    }
+    switch (this.#cycle) {
+      case 0: {
+        if (this.bus.ticks === 0) this.bus.flags = Bus.BAR;
+        if (this.bus.ticks === 2) this.bus.data = this.addr;
+        return;
+      }
+      case 1: {
+        if (this.bus.ticks === 0) this.bus.flags = Bus.DTB;
+        if (this.bus.ticks === 2) this.data = this.bus.data;
+        return;
+      }
+      default: {
+        if (this.bus.ticks === 0) this.bus.flags = Bus.___;
+        return;
+      }
+    }
+  }
+
+  debug_read(_addr: number): number | null {
+    return null;
+  }
+}
+
+describe("bus arbitration", () => {
+  // prettier-ignore
+  const program = [
+    /* $1000 */ 0x02b9, 0x0123, // MVII #$0123,R1
+    /* $1002 */ 0x0280, 0x0300, // MVI $0300,R0
+    /* $1004 */ 0x0000, // HLT
+  ];
+
+  const ticksUntilHalted = (createDevices?: (bus: Bus) => BusDevice[]) => {
+    const system = createTestSystem(program, createDevices);
+    system.ram.data[0x0300] = 0xbeef;
+    let ticks = 0;
+    while (!system.cpu.halted && ticks < 10_000) {
+      system.tick();
+      ticks += 1;
+    }
+    return {...system, ticks};
+  };
+
+  test("a device can become bus master while the CPU waits", () => {
+    const baseline = ticksUntilHalted();
+    let dma: DmaReader | null = null;
+    const {bus, cpu, ticks} = ticksUntilHalted((bus) => [
+      (dma = new DmaReader(bus, 0x0300)),
+    ]);
+    expect(dma!.data).toEqual(0xbeef);
+    expect(dma!.masterCycles).toEqual(3);
+    expect(bus.busrq).toEqual(false);
+    expect(bus.busak).toEqual(false);
+    // The CPU carries on as though nothing happened, just 3 cycles later:
+    expect(ticks).toEqual(baseline.ticks + 3 * 4);
+    expect(cpu.r[0]).toEqual(0xbeef);
+    expect(cpu.r[1]).toEqual(0x0123);
+  });
+});
+
+describe("software interrupts", () => {
+  test("SIN pulses PCIT while it executes", () => {
+    let pcitTicks = 0;
+    const {cpu, runUntilHalted} = createTestSystem(
+      [
+        0x0036, // SIN
+        0x0008, // INCR R0
+        0x0000, // HLT
+      ],
+      (bus) => [
+        {
+          clock: () => {
+            if (bus.pcit) pcitTicks += 1;
+          },
+          debug_read: () => null,
+        },
+      ],
+    );
+    let softwareInterrupts = 0;
+    cpu.onSoftwareInterrupt = () => {
+      softwareInterrupts += 1;
+    };
+    runUntilHalted();
+    expect(softwareInterrupts).toEqual(1);
+    expect(pcitTicks).toEqual(2 * 4);
+    expect(cpu.r[0]).toEqual(1);
+  });
+});
+
+describe("instruction timing", async () => {
+  // Cycle counts for internal (register-only) instructions, as measured by
+  // jzIntv while running our fixtures. Each status line in a fixture ends with
+  // the cycle count at which that instruction started executing.
+  const jzIntvCycles = new Map<number, number>();
+  for (const fixturePath of await glob("./test-roms/*.jzintv.txt")) {
+    const lines = (
+      await fs.promises.readFile(fixturePath, {encoding: "utf-8"})
+    ).split("\n");
+    const memory = new Map<number, number>();
+    for (const line of lines) {
+      const m = line.match(/^RD a=\$([0-9A-F]{4}) d=([0-9A-F]{4})/);
+      if (m && !memory.has(parseInt(m[1]!, 16))) {
+        memory.set(parseInt(m[1]!, 16), parseInt(m[2]!, 16));
+      }
+    }
+    const statuses = lines
+      .map((line) => line.match(/^(?:[0-9A-F]{4} ){7}([0-9A-F]{4}) .* (\d+)$/))
+      .filter((m) => m != null)
+      .map((m) => ({pc: parseInt(m![1]!, 16), t: parseInt(m![2]!, 10)}));
+    for (let i = 0; i < statuses.length - 1; ++i) {
+      const {pc, t} = statuses[i]!;
+      const next = statuses[i + 1]!;
+      const opcode = memory.get(pc);
+      // Only internal instructions, excluding HLT and J which needs operands:
+      if (opcode == null || opcode >= 0x0200 || opcode === 0x0000) continue;
+      if (opcode === 0x0004) continue;
+      // Skip anything that was followed by an interrupt:
+      if (next.pc === CP1610.INTERRUPT_VECTOR) continue;
+      jzIntvCycles.set(opcode, next.t - t);
+    }
+  }
+
+  const measureCycles = (opcode: number) => {
+    const {machine} = createTestSystem([opcode, 0x0000]);
+    return machine.stepInstruction().cycles;
+  };
+
+  test("internal instructions match jzIntv", () => {
+    expect(jzIntvCycles.size).toBeGreaterThan(0);
+    const mismatches = [...jzIntvCycles]
+      .map(([opcode, cycles]) => ({
+        opcode: $word(opcode),
+        mnemonic: decodeOpcode(opcode)?.mnemonic,
+        expected: cycles,
+        actual: measureCycles(opcode),
+      }))
+      .filter(({expected, actual}) => expected !== actual);
+    expect(mismatches).toEqual([]);
+  });
+});
+
+describe("cycle validation", () => {
+  // prettier-ignore
+  const program = [
+    /* $1000 */ 0x02be, 0x0200, // MVII #$0200,R6
+    /* $1002 */ 0x02b8, 0x0005, // MVII #$0005,R0
+    /* $1004 */ 0x0001, // SDBD
+    /* $1005 */ 0x02b9, 0x0034, 0x0012, // MVII #$1234,R1
+    /* $1008 */ 0x0271, // PSHR R1
+    /* $1009 */ 0x02b2, // PULR R2
+    /* $100A */ 0x0093, // MOVR R2,R3
+    /* $100B */ 0x000e, // INCR R6
+    /* $100C */ 0x0016, // DECR R6
+    /* $100D */ 0x004c, // SLL R0,2
+    /* $100E */ 0x0041, // SWAP R1
+    /* $100F */ 0x00c1, // ADDR R0,R1
+    /* $1010 */ 0x0010, // DECR R0
+    /* $1011 */ 0x022c, 0x0002, // BNEQ $1010
+    /* $1013 */ 0x0004, 0x0310, 0x0016, // J $1016
+    /* $1016 */ 0x0030, // GSWD R0
+    /* $1017 */ 0x0034, // NOP
+    /* $1018 */ 0x0240, 0x0300, // MVO R0,$0300
+    /* $101A */ 0x0281, 0x0300, // MVI $0300,R1
+    /* $101C */ 0x0000, // HLT
+  ];
+
+  test("instructions take as many cycles as InstructionConfig says", () => {
+    let validator: CycleValidator | null = null;
+    const {runUntilHalted} = createTestSystem(program, (bus, cpu) => [
+      (validator = new CycleValidator(bus, cpu)),
+      // Stealing the bus shouldn't count against the interrupted instruction:
+      new DmaReader(bus, 0x0300),
+    ]);
+    runUntilHalted();
+    expect(validator!.mismatches).toEqual([]);
+    // Everything up to HLT, including 20 passes through the DECR/BNEQ loop:
+    expect(validator!.validated).toEqual(57);
+  });
+
+  test("the unused upper bits of opcodes are ignored", () => {
+    let validator: CycleValidator | null = null;
+    // prettier-ignore
+    const {runUntilHalted} = createTestSystem([
+      /* $1000 */ 0xfeb8, 0x0005, // MVII #$0005,R0
+      /* $1002 */ 0xfc10, // DECR R0
+      /* $1003 */ 0xfe2c, 0x0002, // BNEQ $1002
+      /* $1005 */ 0x0000, // HLT
+    ], (bus, cpu) => [(validator = new CycleValidator(bus, cpu))]);
+    runUntilHalted();
+    expect(validator!.mismatches).toEqual([]);
+    expect(validator!.validated).toEqual(11);
+  });
+});
@@ -5,6 +5,8 @@
 
 import {UnreachableCaseError} from "./UnreachableCaseError";
 import {Bus, BusFlags, BusDevice} from "./Bus";
+import {decodeOpcode} from "./decodeOpcode";
+import {SaveStateError, StateReader, StateWriter} from "./SaveState";
 
 let totalLogs = 0;
 const trace = (..._: any[]) => {
@@ -46,6 +48,12 @@ const XOR: 0b111 = 0b111;
 const HLT_OPCODE: 0b0000_0000_0000_0000 = 0b0000_0000_0000_0000;
 const SDBD_OPCODE: 0b0000_0000_0000_0001 = 0b0000_0000_0000_0001;
 
+/**
+ * Instructions are 10-bit decles; the rest of a fetched word is ignored, which
+ * matters for 10-bit ROMs, where it floats.
+ */
+export const DECLE_MASK = 0b0000_0011_1111_1111;
+
 const BusSequences = {
   //
   // INITIALIZATION
@@ -60,6 +68,26 @@ const BusSequences = {
     Bus.___,
   ],
 
+  //
+  // INTERRUPT
+  //
+
+  // The CP-1600 docs describe the interrupt sequence as INTAK (stack pointer to
+  // the bus), a write of the program counter to the stack (DW, DWS), and
+  // finally IAB to fetch the interrupt vector. The NACTs in between are my best
+  // guess at the timing for now.
+  //
+  // prettier-ignore
+  INTERRUPT: [
+    Bus.INTAK,
+    Bus.___,
+    Bus.DW,
+    Bus.DWS,
+    Bus.___,
+    Bus.IAB,
+    Bus.___,
+  ],
+
   //
   // FETCH
   //
@@ -158,6 +186,12 @@ const BusSequences = {
     Bus.___
   ],
   // prettier-ignore
+  EXEC_NACT_3: [
+    Bus.___,
+    Bus.___,
+    Bus.___
+  ],
+  // prettier-ignore
   EXEC_NACT_4: [
     Bus.___,
     Bus.___,
@@ -166,6 +200,19 @@ const BusSequences = {
   ],
 } as const;
 
+/**
+ * Bus sequences for instructions which spend their execution phase entirely
+ * internal to the CPU, keyed by the number of cycles they take on top of the
+ * instruction fetch.
+ */
+const EXEC_NACT_SEQUENCES: {
+  [cycles: number]: keyof typeof BusSequences | undefined;
+} = {
+  2: "EXEC_NACT_2",
+  3: "EXEC_NACT_3",
+  4: "EXEC_NACT_4",
+};
+
 export const BUS_FLAG_STRINGS = [
   "NACT",
   "ADAR",
@@ -179,7 +226,9 @@ export const BUS_FLAG_STRINGS = [
 
 export class CP1610 implements BusDevice {
   static readonly RESET_VECTOR: number = 0x1000;
+  static readonly INTERRUPT_VECTOR: number = 0x1004;
 
+  name: string = "CP1610";
   #ts: TimeSlot = 0;
   bus: Bus;
   busSequence: keyof typeof BusSequences;
@@ -277,22 +326,106 @@ export class CP1610 implements BusDevice {
    */
   d: boolean = false;
 
+  /**
+   * Number of interrupts that have been entered but not yet terminated with
+   * TCI. This can exceed 1 when a service routine re-enables interrupts before
+   * it's done, allowing another interrupt to nest inside of it.
+   */
+  interruptDepth: number = 0;
+
   halted: boolean = false;
   onInstructionFetch: (() => void) | null = null;
 
+  /**
+   * Called whenever a SIN instruction is executed, as PCIT is asserted.
+   */
+  onSoftwareInterrupt: (() => void) | null = null;
+
   constructor(bus: Bus) {
     this.bus = bus;
-    this.bus.flags = Bus.___;
-
     this.busSequence = "INITIALIZATION";
     this.busSequenceIndex = 0;
+    this.#reset();
+  }
+
+  /**
+   * Everything, down to where we are in the current bus sequence, so a save
+   * can be made (and loaded) mid-instruction.
+   */
+  saveState(writer: StateWriter): void {
+    writer.u8(this.#ts);
+    writer.string(this.busSequence);
+    writer.u8(this.busSequenceIndex);
+    writer.u16(this.opcode);
+    writer.bool(this.#external);
+    writer.u8(this.#operation);
+    writer.u8(this.#f1);
+    writer.u8(this.#f2);
+    writer.u16(this.#effectiveAddress);
+    writer.nullable(this.#jumpOperand1);
+    writer.nullable(this.#jumpOperand2);
+    writer.u16(this.#dtbData);
+    writer.u16Array(this.r);
+    writer.bool(this.s);
+    writer.bool(this.c);
+    writer.bool(this.z);
+    writer.bool(this.o);
+    writer.bool(this.i);
+    writer.bool(this.d);
+    writer.u32(this.interruptDepth);
+    writer.bool(this.halted);
+  }
+
+  loadState(reader: StateReader): void {
+    this.#ts = (reader.u8() & 0b11) as TimeSlot;
+    const offset = reader.offset;
+    const busSequence = reader.string();
+    if (!Object.prototype.hasOwnProperty.call(BusSequences, busSequence)) {
+      throw new SaveStateError(offset, `Unknown bus sequence ${busSequence}`);
+    }
+    this.busSequence = busSequence as keyof typeof BusSequences;
+    this.busSequenceIndex = reader.u8();
+    this.opcode = reader.u16();
+    this.#external = reader.bool();
+    this.#operation = (reader.u8() & 0b111) as Triplet;
+    this.#f1 = (reader.u8() & 0b111) as Triplet;
+    this.#f2 = (reader.u8() & 0b111) as Triplet;
+    this.#effectiveAddress = reader.u16();
+    this.#jumpOperand1 = reader.nullable();
+    this.#jumpOperand2 = reader.nullable();
+    this.#dtbData = reader.u16();
+    reader.u16Array(this.r);
+    this.s = reader.bool();
+    this.c = reader.bool();
+    this.z = reader.bool();
+    this.o = reader.bool();
+    this.i = reader.bool();
+    this.d = reader.bool();
+    this.interruptDepth = reader.u32();
+    this.halted = reader.bool();
   }
 
   clock(): void {
-    if (this.halted) return;
+    if (this.bus.reset) {
+      this.#reset();
+      return;
+    }
+
+    if (this.halted) {
+      // Nothing to finish up, so any bus request can be granted right away:
+      this.bus.busak = this.bus.busrq;
+      return;
+    }
 
     this.#ts = ((this.#ts + 1) % 4) as TimeSlot;
 
+    if (this.bus.busak) {
+      // Another device is bus master; sit idle until it releases BUSRQ, picking
+      // up where we left off at the start of a micro-cycle:
+      if (this.#ts !== 0 || this.bus.busrq) return;
+      this.bus.busak = false;
+    }
+
     const busSequence = BusSequences[this.busSequence];
     const busControl = busSequence[this.busSequenceIndex] as BusFlags;
     if (this.#ts === 0) {
@@ -306,9 +439,12 @@ export class CP1610 implements BusDevice {
       case Bus.IAB: {
         if (this.#ts === 1) {
           // Doing the write and the read here; unclear what device actually
-          // asserts the reset vector so I'm just doing it all in one step,
-          // here.
-          this.bus.data = CP1610.RESET_VECTOR;
+          // asserts the reset/interrupt vector so I'm just doing it all in one
+          // step, here.
+          this.bus.data =
+            this.busSequence === "INTERRUPT"
+              ? CP1610.INTERRUPT_VECTOR
+              : CP1610.RESET_VECTOR;
         } else if (this.#ts === 2) {
           this.r[7] = this.bus.data;
         }
@@ -349,8 +485,10 @@ export class CP1610 implements BusDevice {
               this.#effectiveAddress += 1;
               break;
             }
+            case "INTERRUPT":
             case "BRANCH_SKIP":
             case "EXEC_NACT_2":
+            case "EXEC_NACT_3":
             case "EXEC_NACT_4": {
               addr = 0xaaaa;
               break;
@@ -385,6 +523,7 @@ export class CP1610 implements BusDevice {
               break;
             }
             case "INITIALIZATION":
+            case "INTERRUPT":
             case "ADDRESS_DIRECT_READ":
             case "ADDRESS_DIRECT_WRITE":
             case "ADDRESS_INDIRECT_READ":
@@ -392,6 +531,7 @@ export class CP1610 implements BusDevice {
             case "BRANCH_SKIP":
             case "BRANCH_JUMP":
             case "EXEC_NACT_2":
+            case "EXEC_NACT_3":
             case "EXEC_NACT_4": {
               this.#dtbData = this.bus.data;
               break;
@@ -413,10 +553,20 @@ export class CP1610 implements BusDevice {
       }
       case Bus.DW:
       case Bus.DWS: {
-        this.bus.data = this.r[this.#f2];
+        // During interrupt processing we're pushing the program counter onto
+        // the stack rather than writing the instruction's source register:
+        this.bus.data =
+          this.busSequence === "INTERRUPT" ? this.r[7] : this.r[this.#f2];
         break;
       }
       case Bus.INTAK: {
+        // Like BAR, but the address is always the stack pointer, which is
+        // post-incremented just like a PSHR:
+        if (this.#ts === 2) {
+          this.bus.data = this.r[6];
+          this.r[6] += 1;
+          this.interruptDepth += 1;
+        }
         break;
       }
       case Bus.___: {
@@ -432,16 +582,21 @@ export class CP1610 implements BusDevice {
       // ...enter the next step in the bus sequence:
       this.busSequenceIndex += 1;
 
+      // TCI is only ever pulsed for a single micro-cycle:
+      this.bus.tci = false;
+
       // If we're at the end of our bus sequence...
       if (this.busSequenceIndex >= busSequence.length) {
         // ...decode the next bus sequence to run:
         this.busSequenceIndex = 0;
         switch (this.busSequence) {
-          case "INITIALIZATION": {
+          case "INITIALIZATION":
+          case "INTERRUPT": {
             this.busSequence = "INSTRUCTION_FETCH";
             break;
           }
           case "EXEC_NACT_2":
+          case "EXEC_NACT_3":
           case "EXEC_NACT_4":
           case "ADDRESS_INDIRECT_READ":
           case "ADDRESS_INDIRECT_READ_SDBD":
@@ -663,12 +818,17 @@ export class CP1610 implements BusDevice {
                           break;
                         }
                         case 0b100:
-                        case 0b101:
-                        case 0b110:
-                        case 0b111: {
+                        case 0b101: {
                           // NOP
                           break;
                         }
+                        case 0b110:
+                        case 0b111: /* SIN */ {
+                          // The software interrupt has been signalled for the
+                          // whole execution of the instruction; release PCIT:
+                          this.bus.pcit = false;
+                          break;
+                        }
                         default: {
                           throw new UnreachableCaseError(this.#f2);
                         }
@@ -819,8 +979,11 @@ export class CP1610 implements BusDevice {
               }
             }
 
-            // Most sequences go straight into fetching the next instruction:
-            this.busSequence = "INSTRUCTION_FETCH";
+            // Most sequences go straight into fetching the next instruction,
+            // unless we need to service an interrupt first:
+            this.busSequence = this.#shouldInterrupt()
+              ? "INTERRUPT"
+              : "INSTRUCTION_FETCH";
             this.#jumpOperand1 = null;
             this.#jumpOperand2 = null;
             break;
@@ -828,7 +991,7 @@ export class CP1610 implements BusDevice {
           case "INSTRUCTION_FETCH": {
             // After we've fetched our instruction, we need to decode what to do
             // next by looking at the opcode we just read.
-            if (this.opcode === SDBD_OPCODE) {
+            if ((this.opcode & DECLE_MASK) === SDBD_OPCODE) {
               this.d = true;
               break;
             }
@@ -1001,6 +1164,14 @@ export class CP1610 implements BusDevice {
                           break;
                         }
                         case 0b101: /* TCI */ {
+                          // Pulse the TCI line for the next micro-cycle so
+                          // interrupt controllers know they can issue their
+                          // next request:
+                          this.bus.tci = true;
+                          this.interruptDepth = Math.max(
+                            0,
+                            this.interruptDepth - 1,
+                          );
                           break;
                         }
                         case 0b110: /* CLRC */ {
@@ -1027,8 +1198,20 @@ export class CP1610 implements BusDevice {
                     case 0b111: /* RSWD */ {
                       // All of these operations take up 6 cycles, 4 for
                       // instruction fetch as usual, plus what I *assume* are
-                      // two NACTs during execution.
-                      this.busSequence = "EXEC_NACT_2";
+                      // two NACTs during execution. Those which write to R6 or
+                      // R7 take an extra cycle.
+                      this.busSequence = this.#executionSequence(
+                        this.#f2 >= 6 ? 1 : 0,
+                      );
+
+                      if (this.#f1 === 0b110 && this.#f2 >= 0b110) {
+                        // SIN pulses PCIT for the two cycles it spends
+                        // executing:
+                        this.bus.pcit = true;
+                        if (this.onSoftwareInterrupt) {
+                          this.onSoftwareInterrupt();
+                        }
+                      }
                       break;
                     }
                     default: {
@@ -1041,7 +1224,9 @@ export class CP1610 implements BusDevice {
                 // so we have special logic for them here:
                 case 0b001: {
                   const shiftTwice = 0b100 & this.#f2;
-                  this.busSequence = shiftTwice ? "EXEC_NACT_4" : "EXEC_NACT_2";
+                  this.busSequence = this.#executionSequence(
+                    shiftTwice ? 1 : 0,
+                  );
                   break;
                 }
                 // The rest of these operations are register to register
@@ -1053,11 +1238,11 @@ export class CP1610 implements BusDevice {
                 case 0b110: /* ANDR */
                 case 0b111: /* XORR */ {
                   // Register-to-register operations tend to take ~6 cycles, so
-                  // 4 for instruction fetch + 2
-                  //
-                  // TODO: MOVR can take an extra cycle if the destination
-                  // register is 6 or 7
-                  this.busSequence = "EXEC_NACT_2";
+                  // 4 for instruction fetch + 2, with an extra cycle for most
+                  // of them if the destination register is 6 or 7
+                  this.busSequence = this.#executionSequence(
+                    this.#f2 >= 6 ? 1 : 0,
+                  );
                   break;
                 }
                 default: {
@@ -1080,7 +1265,7 @@ export class CP1610 implements BusDevice {
                 bus: this.bus.toString(),
               });
             }
-            if (this.opcode !== SDBD_OPCODE) {
+            if ((this.opcode & DECLE_MASK) !== SDBD_OPCODE) {
               this.d = false;
             }
 
@@ -1092,9 +1277,98 @@ export class CP1610 implements BusDevice {
           }
         }
       }
+
+      // Hand the bus over to any device requesting it, but only in between bus
+      // transactions so that no device's latched address gets clobbered:
+      if (this.bus.busrq && this.#atTransactionBoundary()) {
+        this.bus.busak = true;
+        this.bus.flags = Bus.___;
+      }
     }
   }
 
+  /**
+   * Puts everything back the way it is at power-on, ready to start over with
+   * the INITIALIZATION sequence.
+   */
+  #reset(): void {
+    // Stay in step with the rest of the bus (we stop counting while halted):
+    this.#ts = this.bus.ticks as TimeSlot;
+    this.bus.flags = Bus.___;
+    this.busSequence = "INITIALIZATION";
+    this.busSequenceIndex = 0;
+
+    this.opcode = 0x0000;
+    this.#external = false;
+    this.#operation = 0;
+    this.#f1 = 0;
+    this.#f2 = 0;
+    this.#effectiveAddress = 0x0000;
+    this.#jumpOperand1 = null;
+    this.#jumpOperand2 = null;
+    this.#dtbData = 0xaaaa;
+
+    this.r.fill(0);
+    this.s = false;
+    this.c = false;
+    this.z = false;
+    this.o = false;
+    this.i = false;
+    this.d = false;
+    this.interruptDepth = 0;
+    this.halted = false;
+  }
+
+  /**
+   * Picks the bus sequence that makes the instruction we just fetched take as
+   * many cycles as its `InstructionConfig.cycles` says it should.
+   *
+   * `variant` selects between the alternate cycle counts listed for the
+   * instruction, falling back to the last one listed.
+   */
+  #executionSequence(variant: number): keyof typeof BusSequences {
+    const cycles = decodeOpcode(this.opcode & DECLE_MASK)?.cycles ?? [];
+    const total = cycles[Math.min(variant, cycles.length - 1)];
+    const sequence =
+      total == null
+        ? undefined
+        : EXEC_NACT_SEQUENCES[total - BusSequences.INSTRUCTION_FETCH.length];
+    if (!sequence) {
+      throw new Error(
+        `No bus sequence for opcode $${this.opcode
+          .toString(16)
+          .padStart(4, "0")} taking ${total} cycles`,
+      );
+    }
+    return sequence;
+  }
+
+  /**
+   * Whether the next micro-cycle begins a new bus transaction (or a new bus
+   * sequence altogether), which is the only time we can safely give up the bus.
+   */
+  #atTransactionBoundary(): boolean {
+    const next = BusSequences[this.busSequence][this.busSequenceIndex];
+    return (
+      this.busSequenceIndex === 0 || next === Bus.BAR || next === Bus.INTAK
+    );
+  }
+
+  /**
+   * Whether we should enter the INTERRUPT bus sequence instead of fetching the
+   * next instruction.
+   *
+   * INTRM is only honored when interrupts are enabled and the instruction we
+   * just executed is interruptable.
+   */
+  #shouldInterrupt(): boolean {
+    return (
+      this.bus.intrm &&
+      this.i &&
+      Boolean(decodeOpcode(this.opcode & DECLE_MASK)?.interruptable)
+    );
+  }
+
   debug_read(_addr: number): number | null {
     return null;
   }
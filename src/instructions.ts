@@ -33,7 +33,11 @@ const instructions: {
   "0004": {
     instruction: "Unconditional Jump",
     mnemonic: "J",
-    cycles: [12],
+    // Intellivision Wiki docs say this takes 12 cycles, but jzIntv says it
+    // takes 13
+    //
+    // cycles: [12],
+    cycles: [13],
     interruptable: true,
   },
   "0005": {
@@ -59,7 +63,11 @@ const instructions: {
   "0008-000f": {
     instruction: "Increment Register",
     mnemonic: "INCR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -67,7 +75,11 @@ const instructions: {
   "0010-0017": {
     instruction: "Decrement Register",
     mnemonic: "DECR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -75,7 +87,11 @@ const instructions: {
   "0018-001f": {
     instruction: "Complement Register",
     mnemonic: "COMR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -83,7 +99,11 @@ const instructions: {
   "0020-0027": {
     instruction: "Negate Register",
     mnemonic: "NEGR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -93,7 +113,11 @@ const instructions: {
   "0028-002f": {
     instruction: "Add Carry to Register",
     mnemonic: "ADCR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     in_c: true,
     out_s: true,
@@ -232,7 +256,11 @@ const instructions: {
   "00c0-00ff": {
     instruction: "Add Registers",
     mnemonic: "ADDR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -242,7 +270,11 @@ const instructions: {
   "0100-013f": {
     instruction: "Subtract Registers",
     mnemonic: "SUBR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -262,7 +294,11 @@ const instructions: {
   "0180-01bf": {
     instruction: "And Registers",
     mnemonic: "ANDR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -270,7 +306,11 @@ const instructions: {
   "01c0-01ff": {
     instruction: "Xor Registers",
     mnemonic: "XORR",
-    cycles: [6],
+    // Intellivision Wiki docs say this always takes 6 cycles, but jzIntv says
+    // it takes an extra cycle when the destination register is R6 or R7
+    //
+    // cycles: [6],
+    cycles: [6, 7],
     interruptable: true,
     out_s: true,
     out_z: true,
@@ -278,7 +318,11 @@ const instructions: {
   "0200-023f": {
     instruction: "Unconditional Branch",
     mnemonic: "B",
-    cycles: [9],
+    // Intellivision Wiki docs say this always takes 9 cycles, but jzIntv says
+    // it only takes 7 when the branch isn't taken
+    //
+    // cycles: [9],
+    cycles: [7, 9],
     interruptable: true,
   },
   "0240-0247": {
@@ -0,0 +1,142 @@
+import {describe, expect, test} from "vitest";
+import fs from "fs";
+
+import {Bus} from "./Bus";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+import {loadBinCfg} from "./binCfg";
+import {RomError, crc16, loadRom, parseRom} from "./intellicart";
+
+type Segment = {start: number; data: ArrayLike<number>};
+
+/**
+ * Encodes a `.rom` image. Segments must start on a page boundary; their data
+ * is padded out to whole pages.
+ */
+const encodeRom = (
+  segments: Segment[],
+  access: number[] = new Array(16).fill(0),
+  fine: number[] = new Array(32).fill(0x07),
+) => {
+  const bytes: number[] = [0xa8, segments.length, segments.length ^ 0xff];
+  const pushCrc = (from: number) => {
+    const crc = crc16(Uint8Array.from(bytes.slice(from)));
+    bytes.push(crc >> 8, crc & 0xff);
+  };
+  for (const {start, data} of segments) {
+    const pages = Math.ceil(data.length / 0x100);
+    const from = bytes.length;
+    bytes.push(start >> 8, (start >> 8) + pages - 1);
+    for (let i = 0; i < pages * 0x100; ++i) {
+      const word = data[i] ?? 0;
+      bytes.push(word >> 8, word & 0xff);
+    }
+    pushCrc(from);
+  }
+  const from = bytes.length;
+  bytes.push(...access, ...fine);
+  pushCrc(from);
+  return Uint8Array.from(bytes);
+};
+
+describe("Intellicart .rom", () => {
+  test("computes CRC-16/CCITT", () => {
+    expect(crc16(new TextEncoder().encode("123456789"))).toBe(0x29b1);
+  });
+
+  test("loads segments as ROM", () => {
+    const {regions} = loadRom(
+      new Bus(),
+      encodeRom([
+        {start: 0x5000, data: [0x1234, 0x5678]},
+        {start: 0xd000, data: new Array(0x180).fill(0x0abc)},
+      ]),
+    );
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x5000, 0x5100],
+      [0xd000, 0xd200],
+    ]);
+    expect(regions[0]!.device).toBeInstanceOf(ROM);
+    expect(regions[0]!.device.read(1)).toBe(0x5678);
+    expect(regions[1]!.device.read(0x17f)).toBe(0x0abc);
+  });
+
+  test("maps RAM from the memory attribute table", () => {
+    const access = new Array(16).fill(0);
+    const fine = new Array(32).fill(0x07);
+    // $8000-$87FF (block 16) is 8-bit RAM, but only pages 1-2 of it:
+    access[8] = 0b0111;
+    fine[16] = 0x12;
+    // $8800-$8FFF (block 17) is 16-bit RAM:
+    access[8] |= 0b0011 << 4;
+    const {cfg} = parseRom(encodeRom([], access, fine));
+    expect(cfg.memattr).toEqual([
+      {line: 0, start: 0x8100, end: 0x82ff, width: 8, page: null},
+      {line: 0, start: 0x8800, end: 0x8fff, width: 16, page: null},
+    ]);
+
+    const {regions} = loadRom(
+      new Bus(),
+      encodeRom([{start: 0x8100, data: [0x1234]}], access, fine),
+    );
+    const ram = regions[0]!.device as RAM;
+    expect(ram).toBeInstanceOf(RAM);
+    expect(ram.width).toBe(8);
+    expect(ram.data[0]).toBe(0x34);
+  });
+
+  test("loads bank-switched blocks without bank switching", () => {
+    const access = new Array(16).fill(0);
+    // $E000-$E7FF (block 28) is readable and bank-switched:
+    access[14] = 0b1001;
+    const {regions, warnings} = loadRom(
+      new Bus(),
+      encodeRom([{start: 0xe000, data: [0x1234]}], access),
+    );
+    expect(regions[0]!.device).toBeInstanceOf(ROM);
+    expect(regions[0]!.device.read(0)).toBe(0x1234);
+    expect(warnings).toEqual([
+      "Bank switching at $E000-$E7FF isn't supported; ignoring it",
+    ]);
+  });
+
+  test("detects corruption", () => {
+    const rom = encodeRom([{start: 0x5000, data: [0x1234]}]);
+    rom[5] ^= 0xff;
+    expect(() => parseRom(rom)).toThrowError(
+      new RomError(0x205, "CRC mismatch in segment 1 ($5000-$50FF)"),
+    );
+    expect(() => parseRom(rom.subarray(0, 100))).toThrowError(RomError);
+    expect(() => parseRom(Uint8Array.from([0xa8, 1, 1]))).toThrowError(
+      "Corrupt segment count",
+    );
+    expect(() => parseRom(Uint8Array.from([0, 0, 0xff]))).toThrowError(
+      "Not a .rom image",
+    );
+  });
+
+  test("loads the same devices as the .bin + .cfg", () => {
+    const bin = fs.readFileSync("./test-roms/instructions.bin");
+    const {regions: fromBin} = loadBinCfg(
+      new Bus(),
+      bin,
+      fs.readFileSync("./test-roms/instructions.cfg", "utf-8"),
+    );
+    const data = new Uint16Array(bin.length / 2);
+    for (let i = 0; i < data.length; ++i) {
+      data[i] = (bin[i * 2]! << 8) | bin[i * 2 + 1]!;
+    }
+    const {regions: fromRom} = loadRom(
+      new Bus(),
+      encodeRom([{start: 0x4800, data}]),
+    );
+    const [binRegion] = fromBin;
+    const [romRegion] = fromRom;
+    expect(romRegion!.start).toBe(binRegion!.start);
+    for (let addr = binRegion!.start; addr < binRegion!.end; ++addr) {
+      expect(romRegion!.device.read(addr - romRegion!.start)).toBe(
+        binRegion!.device.read(addr - binRegion!.start),
+      );
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import {Bus} from "./Bus";
+import {DataWidth} from "./RAM";
+import {
+  CartridgeMemory,
+  Cfg,
+  CfgBankswitch,
+  CfgMapping,
+  CfgMemAttr,
+  buildCartridge,
+} from "./binCfg";
+
+/**
+ * Parser for Intellicart `.rom` cartridge images.
+ *
+ * Layout, per jzIntv's documentation of the format:
+ *
+ * - 1 byte: $A8 (autobaud byte for the Intellicart's serial loader), or $41
+ *   for images meant for other loaders.
+ * - 1 byte: number of segments, and 1 byte: its ones' complement.
+ * - For each segment:
+ *   - 1 byte: upper 8 bits of the segment's first address, and 1 byte: upper
+ *     8 bits of its last address. Segments cover whole 256-word pages.
+ *   - The segment's words, big-endian.
+ *   - 2 bytes: CRC-16 of the two address bytes and the data.
+ * - 16 bytes: access table. One nibble per 2K range, lower-addressed range in
+ *   the low nibble: bit 0 readable, bit 1 writable, bit 2 narrow (8-bit), bit
+ *   3 bank-switched.
+ * - 32 bytes: fine address table. One byte per 2K range, restricting its
+ *   access bits to a subset of its 256-word pages: the first page in the upper
+ *   nibble, the last page in the lower nibble.
+ * - 2 bytes: CRC-16 of both tables.
+ */
+
+export class RomError extends Error {
+  /** Byte offset into the image at fault. */
+  offset: number;
+
+  constructor(offset: number, message: string) {
+    super(`Offset $${offset.toString(16).toUpperCase()}: ${message}`);
+    this.offset = offset;
+  }
+}
+
+/** CRC-16 as used by the Intellicart: CCITT polynomial ($1021), init $FFFF. */
+export const crc16 = (bytes: Uint8Array, crc: number = 0xffff): number => {
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; ++bit) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc;
+};
+
+const formatAddr = (addr: number) =>
+  "$" + addr.toString(16).padStart(4, "0").toUpperCase();
+
+const BLOCK_SIZE = 0x800;
+const PAGE_SIZE = 0x100;
+
+const ACCESS_READ = 0b0001;
+const ACCESS_WRITE = 0b0010;
+const ACCESS_NARROW = 0b0100;
+const ACCESS_BANKSWITCHED = 0b1000;
+
+/**
+ * Decodes a `.rom` image into the same shape as a `.bin` + `.cfg` pair: the
+ * segments' words laid end to end, and a config mapping them back into place.
+ */
+export const parseRom = (bytes: Uint8Array): {words: Uint16Array; cfg: Cfg} => {
+  const need = (offset: number, length: number) => {
+    if (offset + length > bytes.length) {
+      throw new RomError(offset, `Unexpected end of file`);
+    }
+  };
+  const readCrc = (offset: number) =>
+    (bytes[offset]! << 8) | bytes[offset + 1]!;
+
+  need(0, 3);
+  if (bytes[0] !== 0xa8 && bytes[0] !== 0x41) {
+    throw new RomError(0, `Not a .rom image`);
+  }
+  const segmentCount = bytes[1]!;
+  if ((segmentCount ^ 0xff) !== bytes[2]) {
+    throw new RomError(1, `Corrupt segment count`);
+  }
+
+  const segments: Uint16Array[] = [];
+  const mapping: CfgMapping[] = [];
+  let fileStart = 0;
+  let offset = 3;
+  for (let i = 0; i < segmentCount; ++i) {
+    need(offset, 2);
+    const start = bytes[offset]! << 8;
+    const end = (bytes[offset + 1]! << 8) + PAGE_SIZE;
+    if (end <= start) {
+      throw new RomError(offset, `Segment ${i + 1} is backwards`);
+    }
+
+    const length = end - start;
+    need(offset, 2 + length * 2 + 2);
+    const crcOffset = offset + 2 + length * 2;
+    const crc = crc16(bytes.subarray(offset, crcOffset));
+    if (crc !== readCrc(crcOffset)) {
+      throw new RomError(
+        crcOffset,
+        `CRC mismatch in segment ${i + 1} (${formatAddr(start)}-${formatAddr(
+          end - 1,
+        )})`,
+      );
+    }
+
+    const data = new Uint16Array(length);
+    for (let j = 0; j < length; ++j) {
+      data[j] = (bytes[offset + 2 + j * 2]! << 8) | bytes[offset + 3 + j * 2]!;
+    }
+    segments.push(data);
+    mapping.push({
+      line: 0,
+      fileStart,
+      fileEnd: fileStart + length - 1,
+      address: start,
+      page: null,
+    });
+    fileStart += length;
+    offset = crcOffset + 2;
+  }
+
+  need(offset, 16 + 32 + 2);
+  const access = bytes.subarray(offset, offset + 16);
+  const fine = bytes.subarray(offset + 16, offset + 48);
+  if (crc16(bytes.subarray(offset, offset + 48)) !== readCrc(offset + 48)) {
+    throw new RomError(offset + 48, `CRC mismatch in memory attribute table`);
+  }
+
+  const memattr: CfgMemAttr[] = [];
+  const bankswitch: CfgBankswitch[] = [];
+  for (let block = 0; block < 32; ++block) {
+    const bits = (access[block >> 1]! >> ((block & 1) * 4)) & 0xf;
+    const firstPage = (fine[block]! >> 4) & 0x7;
+    const lastPage = fine[block]! & 0x7;
+    if (lastPage < firstPage) continue;
+    const start = block * BLOCK_SIZE + firstPage * PAGE_SIZE;
+    const end = block * BLOCK_SIZE + (lastPage + 1) * PAGE_SIZE - 1;
+
+    // Passed along like a `.cfg`'s `[bankswitch]`, which `buildCartridge`
+    // warns about, loading the block as it is at power-up:
+    if (bits & ACCESS_BANKSWITCHED) {
+      bankswitch.push({line: 0, start, end});
+    }
+
+    // Readable ranges without the write bit are just ROM, which the segments
+    // already cover. Write-only memory isn't something we model.
+    if (
+      (bits & (ACCESS_READ | ACCESS_WRITE)) !==
+      (ACCESS_READ | ACCESS_WRITE)
+    ) {
+      continue;
+    }
+    const width: DataWidth = bits & ACCESS_NARROW ? 8 : 16;
+    const previous = memattr.at(-1);
+    if (previous && previous.end + 1 === start && previous.width === width) {
+      memattr[memattr.length - 1] = {...previous, end};
+    } else {
+      memattr.push({line: 0, start, end, width, page: null});
+    }
+  }
+
+  const words = new Uint16Array(fileStart);
+  let position = 0;
+  for (const segment of segments) {
+    words.set(segment, position);
+    position += segment.length;
+  }
+
+  return {
+    words,
+    cfg: {mapping, memattr, bankswitch, preload: [], macro: [], vars: {}},
+  };
+};
+
+/** Builds the memory devices described by a `.rom` image. */
+export const loadRom = (bus: Bus, bytes: Uint8Array): CartridgeMemory => {
+  const {words, cfg} = parseRom(bytes);
+  return buildCartridge(bus, words, cfg);
+};
@@ -0,0 +1,208 @@
+import {describe, expect, test} from "vitest";
+
+import {Bus} from "./Bus";
+import {RAM} from "./RAM";
+import {ROM} from "./ROM";
+import {
+  BlockType,
+  LuigiError,
+  MetadataTag,
+  crc32,
+  crc8,
+  loadLuigi,
+  parseLuigi,
+} from "./luigi";
+
+const le16 = (n: number) => [n & 0xff, n >> 8];
+
+const block = (type: number, payload: number[]) => {
+  const header = [type, ...le16(payload.length)];
+  const crc = crc32(Uint8Array.from(payload));
+  return [
+    ...header,
+    crc8(Uint8Array.from(header)),
+    crc & 0xff,
+    (crc >>> 8) & 0xff,
+    (crc >>> 16) & 0xff,
+    crc >>> 24,
+    ...payload,
+  ];
+};
+
+const encodeLuigi = (
+  blocks: number[][],
+  {version = 1, features = 0n, uid = 0x1234n} = {},
+) => {
+  const header = new Uint8Array(32);
+  const view = new DataView(header.buffer);
+  header.set([0x4c, 0x54, 0x4f, version]);
+  view.setBigUint64(4, features, true);
+  if (version >= 1) view.setBigUint64(20, uid, true);
+  header[31] = crc8(header.subarray(0, 31));
+  return Uint8Array.from([
+    ...header,
+    ...blocks.flat(),
+    ...block(BlockType.EOF, []),
+  ]);
+};
+
+const dataHunk = (address: number, data: number[], page = 0xff) =>
+  block(BlockType.DATA_HUNK, [...le16(address), page, ...data.flatMap(le16)]);
+
+const text = (tag: number, value: string) => {
+  const bytes = [...new TextEncoder().encode(value)];
+  return [tag, bytes.length, ...bytes];
+};
+
+/**
+ * Assembled by hand from the LUIGI spec rather than with `encodeLuigi`, with
+ * its checksums worked out separately, so that the encoder can't share a
+ * mistake with the parser.
+ */
+// prettier-ignore
+const HELLO_LUIGI = Uint8Array.from([
+  // Header: "LTO", version 1, features (ECS enhanced), UID, reserved, CRC-8:
+  0x4c, 0x54, 0x4f, 0x01,
+  0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+  0xef, 0xcd, 0xab, 0x89, 0x67, 0x45, 0x23, 0x01,
+  0x00, 0x00, 0x00, 0xb6,
+  // Metadata: type, length, CRC-8, CRC-32, then the name, author and year:
+  0x03, 0x13, 0x00, 0x5d, 0x09, 0xd6, 0xbc, 0x5c,
+  0x00, 0x05, 0x48, 0x65, 0x6c, 0x6c, 0x6f,
+  0x02, 0x07, 0x53, 0x6f, 0x6d, 0x65, 0x6f, 0x6e, 0x65,
+  0x04, 0x01, 0x7c,
+  // Data hunk: $5000, not paged, MVII #$002A,R0 and HLT:
+  0x02, 0x09, 0x00, 0xfd, 0x7a, 0x20, 0xcf, 0x62,
+  0x00, 0x50, 0xff, 0xb8, 0x02, 0x2a, 0x00, 0x00, 0x00,
+  // EOF:
+  0xff, 0x00, 0x00, 0xd2, 0x00, 0x00, 0x00, 0x00,
+]);
+
+describe("LUIGI", () => {
+  test("computes CRCs", () => {
+    const check = new TextEncoder().encode("123456789");
+    expect(crc8(check)).toBe(0xa1);
+    expect(crc32(check)).toBe(0xcbf43926);
+  });
+
+  test("reads a known-good image", () => {
+    const luigi = parseLuigi(HELLO_LUIGI);
+    expect(luigi.version).toBe(1);
+    expect(luigi.uid).toBe(0x0123456789abcdefn);
+    expect(luigi.features.ecs).toBe("enhanced");
+    expect(luigi.metadata).toMatchObject({
+      name: "Hello",
+      authors: ["Someone"],
+      year: 2024,
+    });
+    expect(luigi.words).toEqual(Uint16Array.from([0x02b8, 0x002a, 0x0000]));
+    expect(luigi.cfg.mapping).toEqual([
+      {line: 0, fileStart: 0, fileEnd: 2, address: 0x5000, page: null},
+    ]);
+    // The encoder agrees:
+    expect(
+      encodeLuigi(
+        [
+          block(BlockType.METADATA, [
+            ...text(MetadataTag.NAME, "Hello"),
+            ...text(MetadataTag.AUTHOR, "Someone"),
+            ...[MetadataTag.RELEASE_DATE, 1, 124],
+          ]),
+          dataHunk(0x5000, [0x02b8, 0x002a, 0x0000]),
+        ],
+        {features: 1n << 2n, uid: 0x0123456789abcdefn},
+      ),
+    ).toEqual(HELLO_LUIGI);
+  });
+
+  test("loads data hunks as ROM", () => {
+    const {regions} = loadLuigi(
+      new Bus(),
+      encodeLuigi([
+        dataHunk(0x5000, [0x1234, 0x5678]),
+        dataHunk(0xd000, [0x0abc]),
+      ]),
+    );
+    expect(regions.map(({start, end}) => [start, end])).toEqual([
+      [0x5000, 0x5002],
+      [0xd000, 0xd001],
+    ]);
+    expect(regions[0]!.device).toBeInstanceOf(ROM);
+    expect(regions[0]!.device.read(1)).toBe(0x5678);
+  });
+
+  test("reads the header, metadata, and memory map", () => {
+    const memoryMap = new Array(64).fill(0);
+    memoryMap[0x30] = 0b0111; // $C000-$C3FF: 8-bit RAM
+    const luigi = parseLuigi(
+      encodeLuigi(
+        [
+          block(BlockType.MEMORY_MAP, memoryMap),
+          block(BlockType.METADATA, [
+            ...text(MetadataTag.NAME, "Some Game"),
+            ...text(MetadataTag.AUTHOR, "Someone"),
+            ...text(MetadataTag.AUTHOR, "Someone Else"),
+            ...[MetadataTag.RELEASE_DATE, 3, 124, 1, 2],
+            ...text(0x7f, "Unknown"),
+          ]),
+        ],
+        {features: (2n << 2n) | (1n << 8n) | (4n << 14n)},
+      ),
+    );
+    expect(luigi.version).toBe(1);
+    expect(luigi.uid).toBe(0x1234n);
+    expect(luigi.features).toEqual({
+      intellivoice: "tolerates",
+      ecs: "requires",
+      intellivision2: "tolerates",
+      keyboardComponent: "tolerates",
+      jlpAccelerators: true,
+      jlpFlashSectors: 4,
+    });
+    expect(luigi.metadata).toMatchObject({
+      name: "Some Game",
+      authors: ["Someone", "Someone Else"],
+      year: 2024,
+    });
+    expect(luigi.cfg.memattr).toEqual([
+      {line: 0, start: 0xc000, end: 0xc3ff, width: 8, page: null},
+      // Because of the JLP flag:
+      {line: 0, start: 0x8040, end: 0x9f7f, width: 16, page: null},
+    ]);
+  });
+
+  test("preloads RAM from data hunks", () => {
+    const memoryMap = new Array(64).fill(0);
+    memoryMap[0x20] = 0b0011;
+    const {regions} = loadLuigi(
+      new Bus(),
+      encodeLuigi([
+        block(BlockType.MEMORY_MAP, memoryMap),
+        dataHunk(0x8001, [0xbeef]),
+      ]),
+    );
+    expect(regions).toHaveLength(1);
+    expect(regions[0]!.device).toBeInstanceOf(RAM);
+    expect(regions[0]!.device.read(1)).toBe(0xbeef);
+  });
+
+  test("detects corruption", () => {
+    const luigi = encodeLuigi([dataHunk(0x5000, [0x1234])]);
+    expect(() => parseLuigi(luigi.subarray(0, 40))).toThrowError(LuigiError);
+
+    const badHeader = luigi.slice();
+    badHeader[10] ^= 1;
+    expect(() => parseLuigi(badHeader)).toThrowError("Header CRC mismatch");
+
+    const badPayload = luigi.slice();
+    badPayload[32 + 8] ^= 1;
+    expect(() => parseLuigi(badPayload)).toThrowError(
+      new LuigiError(0x24, "Block payload CRC mismatch"),
+    );
+
+    expect(() =>
+      parseLuigi(encodeLuigi([block(BlockType.SCRAMBLE_KEY, [1, 2, 3])])),
+    ).toThrowError("Scrambled images aren't supported");
+  });
+});
@@ -0,0 +1,376 @@
+import {Bus} from "./Bus";
+import {DataWidth} from "./RAM";
+import {
+  CartridgeMemory,
+  Cfg,
+  CfgBankswitch,
+  CfgMapping,
+  CfgMemAttr,
+  buildCartridge,
+} from "./binCfg";
+
+/**
+ * Reader for LUIGI cartridge images, the format jzIntv's `bin2luigi` and
+ * `rom2luigi` produce, and the LTO Flash! loads.
+ *
+ * Layout:
+ *
+ * - 32 byte header:
+ *   - "LTO"
+ *   - 1 byte: version (0 or 1)
+ *   - 16 bytes: feature flags, little-endian (see `parseFeatures`)
+ *   - 8 bytes: unique ID (version 1 only; zeros otherwise)
+ *   - 3 bytes: reserved
+ *   - 1 byte: CRC-8 of the rest of the header
+ * - Blocks, each with an 8 byte header:
+ *   - 1 byte: type (see `BlockType`)
+ *   - 2 bytes: payload length, little-endian
+ *   - 1 byte: CRC-8 of the type and length
+ *   - 4 bytes: CRC-32 of the payload, little-endian
+ *
+ * and then the payload. The last block is always EOF.
+ *
+ * All multi-byte values are little-endian, data included, unlike `.bin` and
+ * `.rom` images.
+ */
+
+export class LuigiError extends Error {
+  /** Byte offset into the image at fault. */
+  offset: number;
+
+  constructor(offset: number, message: string) {
+    super(`Offset $${offset.toString(16).toUpperCase()}: ${message}`);
+    this.offset = offset;
+  }
+}
+
+export const BlockType = {
+  /** Key for scrambled (LTO Flash!-locked) images. */
+  SCRAMBLE_KEY: 0x00,
+  /**
+   * One byte per 1K range: bit 0 readable, bit 1 writable, bit 2 narrow
+   * (8-bit), bit 3 bank-switched.
+   */
+  MEMORY_MAP: 0x01,
+  /**
+   * 2 bytes: address. 1 byte: ECS page, or $FF if the data isn't paged. Then
+   * the data itself.
+   */
+  DATA_HUNK: 0x02,
+  /** Tag, length, and value for each field; see `MetadataTag`. */
+  METADATA: 0x03,
+  EOF: 0xff,
+} as const;
+
+export const MetadataTag = {
+  NAME: 0x00,
+  SHORT_NAME: 0x01,
+  AUTHOR: 0x02,
+  PUBLISHER: 0x03,
+  /** 1 byte: years since 1900, then optionally month and day. */
+  RELEASE_DATE: 0x04,
+  LICENSE: 0x05,
+  DESCRIPTION: 0x06,
+} as const;
+
+/**
+ * How a cartridge gets along with a peripheral. Matches the encoding of the
+ * 2-bit compatibility fields in the feature flags.
+ */
+export type Compatibility =
+  | "tolerates"
+  | "enhanced"
+  | "requires"
+  | "incompatible";
+
+const COMPATIBILITY: ReadonlyArray<Compatibility> = [
+  "tolerates",
+  "enhanced",
+  "requires",
+  "incompatible",
+];
+
+export type LuigiFeatures = Readonly<{
+  intellivoice: Compatibility;
+  ecs: Compatibility;
+  intellivision2: Compatibility;
+  keyboardComponent: Compatibility;
+  /** Whether the JLP's RAM and math acceleration are enabled. */
+  jlpAccelerators: boolean;
+  /** Number of 1.5K JLP flash sectors used for saves. */
+  jlpFlashSectors: number;
+}>;
+
+export type LuigiMetadata = Readonly<{
+  name: string | null;
+  shortName: string | null;
+  authors: ReadonlyArray<string>;
+  publishers: ReadonlyArray<string>;
+  year: number | null;
+  license: string | null;
+  description: string | null;
+}>;
+
+export type Luigi = Readonly<{
+  version: number;
+  features: LuigiFeatures;
+  uid: bigint | null;
+  metadata: LuigiMetadata;
+  words: Uint16Array;
+  cfg: Cfg;
+}>;
+
+export const LUIGI_SIGNATURE = "LTO";
+
+/**
+ * JLP RAM, which shows up whenever the JLP accelerators are enabled. (The
+ * accelerator registers themselves at $9F80-$9FFF aren't emulated.)
+ */
+export const JLP_RAM = {start: 0x8040, end: 0x9f7f} as const;
+
+const HEADER_SIZE = 32;
+const BLOCK_HEADER_SIZE = 8;
+
+/** The Dallas/Maxim 1-Wire CRC-8 ("DOWCRC"): reflected polynomial $8C. */
+export const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; ++bit) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8c : crc >>> 1;
+    }
+  }
+  return crc;
+};
+
+/** The usual CRC-32 (as in zip, PNG, etc.) */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; ++bit) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isLuigi = (bytes: Uint8Array): boolean =>
+  String.fromCharCode(...bytes.subarray(0, 3)) === LUIGI_SIGNATURE;
+
+/**
+ * Feature flags: 2-bit compatibility fields for the Intellivoice (bits 0-1),
+ * ECS (2-3), Intellivision II (4-5) and Keyboard Component (6-7), the JLP
+ * accelerators (8-9; enabled for any nonzero value) and JLP flash sector count
+ * (14-23). The rest are reserved.
+ */
+const parseFeatures = (flags: bigint): LuigiFeatures => {
+  const field = (shift: number, bits: number) =>
+    Number((flags >> BigInt(shift)) & ((1n << BigInt(bits)) - 1n));
+  return {
+    intellivoice: COMPATIBILITY[field(0, 2)]!,
+    ecs: COMPATIBILITY[field(2, 2)]!,
+    intellivision2: COMPATIBILITY[field(4, 2)]!,
+    keyboardComponent: COMPATIBILITY[field(6, 2)]!,
+    jlpAccelerators: field(8, 2) !== 0,
+    jlpFlashSectors: field(14, 10),
+  };
+};
+
+const parseMetadata = (payload: Uint8Array, offset: number): LuigiMetadata => {
+  const decoder = new TextDecoder();
+  let name: string | null = null;
+  let shortName: string | null = null;
+  let year: number | null = null;
+  let license: string | null = null;
+  let description: string | null = null;
+  const authors: string[] = [];
+  const publishers: string[] = [];
+
+  for (let i = 0; i < payload.length; ) {
+    const tag = payload[i]!;
+    const length = payload[i + 1];
+    if (length == null || i + 2 + length > payload.length) {
+      throw new LuigiError(offset + i, `Truncated metadata`);
+    }
+    const value = payload.subarray(i + 2, i + 2 + length);
+    const text = decoder.decode(value);
+    switch (tag) {
+      case MetadataTag.NAME:
+        name = text;
+        break;
+      case MetadataTag.SHORT_NAME:
+        shortName = text;
+        break;
+      case MetadataTag.AUTHOR:
+        authors.push(text);
+        break;
+      case MetadataTag.PUBLISHER:
+        publishers.push(text);
+        break;
+      case MetadataTag.RELEASE_DATE:
+        if (value.length > 0) year = 1900 + value[0]!;
+        break;
+      case MetadataTag.LICENSE:
+        license = text;
+        break;
+      case MetadataTag.DESCRIPTION:
+        description = text;
+        break;
+      default:
+        // Fields we don't know about are fine to skip.
+        break;
+    }
+    i += 2 + length;
+  }
+
+  return {name, shortName, authors, publishers, year, license, description};
+};
+
+const parseMemoryMap = (
+  payload: Uint8Array,
+  offset: number,
+): Pick<Cfg, "memattr" | "bankswitch"> => {
+  if (payload.length !== 64) {
+    throw new LuigiError(offset, `Memory map should be 64 bytes`);
+  }
+  const memattr: CfgMemAttr[] = [];
+  const bankswitch: CfgBankswitch[] = [];
+  payload.forEach((bits, index) => {
+    const start = index * 0x400;
+    const end = start + 0x3ff;
+    if (bits & 0b1000) bankswitch.push({line: 0, start, end});
+
+    // Only RAM needs describing; data hunks take care of ROM:
+    if ((bits & 0b0011) !== 0b0011) return;
+    const width: DataWidth = bits & 0b0100 ? 8 : 16;
+    const previous = memattr.at(-1);
+    if (previous && previous.end + 1 === start && previous.width === width) {
+      memattr[memattr.length - 1] = {...previous, end};
+    } else {
+      memattr.push({line: 0, start, end, width, page: null});
+    }
+  });
+  return {memattr, bankswitch};
+};
+
+export const parseLuigi = (bytes: Uint8Array): Luigi => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const need = (offset: number, length: number) => {
+    if (offset + length > bytes.length) {
+      throw new LuigiError(offset, `Unexpected end of file`);
+    }
+  };
+
+  need(0, HEADER_SIZE);
+  if (!isLuigi(bytes)) throw new LuigiError(0, `Not a LUIGI image`);
+  const version = bytes[3]!;
+  if (version > 1) {
+    throw new LuigiError(3, `Unsupported LUIGI version ${version}`);
+  }
+  if (crc8(bytes.subarray(0, HEADER_SIZE - 1)) !== bytes[HEADER_SIZE - 1]) {
+    throw new LuigiError(HEADER_SIZE - 1, `Header CRC mismatch`);
+  }
+  const features = parseFeatures(view.getBigUint64(4, true));
+  const uid = version >= 1 ? view.getBigUint64(20, true) : null;
+
+  let metadata: LuigiMetadata = parseMetadata(new Uint8Array(), 0);
+  const memattr: CfgMemAttr[] = [];
+  const bankswitch: CfgBankswitch[] = [];
+  const hunks: {address: number; page: number | null; data: Uint16Array}[] = [];
+
+  let offset = HEADER_SIZE;
+  for (;;) {
+    need(offset, BLOCK_HEADER_SIZE);
+    const type = bytes[offset]!;
+    const length = view.getUint16(offset + 1, true);
+    if (crc8(bytes.subarray(offset, offset + 3)) !== bytes[offset + 3]) {
+      throw new LuigiError(offset + 3, `Block header CRC mismatch`);
+    }
+    const payloadOffset = offset + BLOCK_HEADER_SIZE;
+    need(payloadOffset, length);
+    const payload = bytes.subarray(payloadOffset, payloadOffset + length);
+    if (crc32(payload) !== view.getUint32(offset + 4, true)) {
+      throw new LuigiError(offset + 4, `Block payload CRC mismatch`);
+    }
+
+    if (type === BlockType.EOF) break;
+    switch (type) {
+      case BlockType.SCRAMBLE_KEY: {
+        throw new LuigiError(offset, `Scrambled images aren't supported`);
+      }
+      case BlockType.MEMORY_MAP: {
+        const memoryMap = parseMemoryMap(payload, payloadOffset);
+        memattr.push(...memoryMap.memattr);
+        bankswitch.push(...memoryMap.bankswitch);
+        break;
+      }
+      case BlockType.DATA_HUNK: {
+        if (length < 5 || length % 2 !== 1) {
+          throw new LuigiError(payloadOffset, `Malformed data hunk`);
+        }
+        const address = view.getUint16(payloadOffset, true);
+        const page = payload[2]!;
+        const data = new Uint16Array((length - 3) / 2);
+        for (let i = 0; i < data.length; ++i) {
+          data[i] = view.getUint16(payloadOffset + 3 + i * 2, true);
+        }
+        hunks.push({address, page: page === 0xff ? null : page, data});
+        break;
+      }
+      case BlockType.METADATA: {
+        metadata = parseMetadata(payload, payloadOffset);
+        break;
+      }
+      default: {
+        // Unknown block types are reserved for future use; skip them.
+        break;
+      }
+    }
+    offset = payloadOffset + length;
+  }
+
+  if (
+    features.jlpAccelerators &&
+    !memattr.some(
+      ({start, end}) => start <= JLP_RAM.end && JLP_RAM.start <= end,
+    )
+  ) {
+    memattr.push({line: 0, ...JLP_RAM, width: 16, page: null});
+  }
+
+  const words = new Uint16Array(
+    hunks.reduce((total, {data}) => total + data.length, 0),
+  );
+  const mapping: CfgMapping[] = [];
+  let fileStart = 0;
+  for (const {address, page, data} of hunks) {
+    words.set(data, fileStart);
+    mapping.push({
+      line: 0,
+      fileStart,
+      fileEnd: fileStart + data.length - 1,
+      address,
+      page,
+    });
+    fileStart += data.length;
+  }
+
+  return {
+    version,
+    features,
+    uid,
+    metadata,
+    words,
+    cfg: {mapping, memattr, bankswitch, preload: [], macro: [], vars: {}},
+  };
+};
+
+/** Builds the memory devices described by a LUIGI image. */
+export const loadLuigi = (
+  bus: Bus,
+  bytes: Uint8Array,
+): CartridgeMemory & {luigi: Luigi} => {
+  const luigi = parseLuigi(bytes);
+  return {luigi, ...buildCartridge(bus, luigi.words, luigi.cfg)};
+};
@@ -1,8 +1,176 @@
 import "./style.css";
+import {AudioOutput} from "./AudioOutput";
+import {InputMapper, loadMapping, saveMapping} from "./InputMapping";
+import {Intellivision} from "./Intellivision";
+import {InputSettings} from "./InputSettings";
+import {FRAME_RATES, MainLoop, VideoStandard} from "./MainLoop";
+import {Scaling, Screen} from "./Screen";
+import {loadStateFromStore, saveStateToStore} from "./saveStateStore";
 
 document.querySelector<HTMLDivElement>("#app")!.innerHTML = `
-  <div>
-    <h1>INTV JS</h1>
-    <p>An intellivision emulator for the web</p>
-  </div>
+  <form class="toolbar">
+    <label>EXEC <input type="file" name="exec" accept=".bin" /></label>
+    <label>GROM <input type="file" name="grom" accept=".bin" /></label>
+    <label>
+      Cartridge
+      <input type="file" name="cartridge" accept=".bin,.int,.itv,.rom,.luigi" />
+    </label>
+    <label>ECS <input type="file" name="ecs" accept=".bin" /></label>
+    <label><input type="checkbox" name="intellivoice" /> Intellivoice (silent)</label>
+    <button type="button" name="reset">Reset</button>
+    <button type="button" name="power">Power cycle</button>
+    <button type="button" name="save">Save state</button>
+    <button type="button" name="load">Load state</button>
+    <select name="standard">
+      ${Object.entries(FRAME_RATES)
+        .map(
+          ([standard, rate]) =>
+            `<option value="${standard}">${standard.toUpperCase()} (${rate} Hz)</option>`,
+        )
+        .join("")}
+    </select>
+    <select name="scaling">
+      <option value="integer">Integer scaling</option>
+      <option value="aspect">4:3</option>
+    </select>
+  </form>
+  <canvas class="screen"></canvas>
+  <details class="settings">
+    <summary>Controls</summary>
+    <div class="input-settings"></div>
+  </details>
 `;
+
+const form = document.querySelector<HTMLFormElement>(".toolbar")!;
+const screen = new Screen(document.querySelector("canvas.screen")!);
+
+const fitScreen = () => {
+  const {height} = form.getBoundingClientRect();
+  screen.fit(window.innerWidth - 32, window.innerHeight - height - 32);
+};
+window.addEventListener("resize", fitScreen);
+fitScreen();
+
+let mapping = loadMapping();
+let mapper: InputMapper | null = null;
+let detachMapper: (() => void) | null = null;
+
+const settings = new InputSettings(
+  document.querySelector(".input-settings")!,
+  mapping,
+);
+settings.onChange = (changed) => {
+  mapping = changed;
+  saveMapping(mapping);
+  if (mapper) mapper.mapping = mapping;
+};
+
+let audio: Promise<AudioOutput> | null = null;
+let output: AudioOutput | null = null;
+
+/** Browsers won't play audio until the user has interacted with the page. */
+const startAudio = async () => {
+  audio ??= AudioOutput.create();
+  output = await audio;
+  await output.resume();
+};
+for (const event of ["pointerdown", "keydown"]) {
+  window.addEventListener(event, startAudio, {once: true});
+}
+
+let loop: MainLoop | null = null;
+
+const readFile = async (name: string): Promise<Uint8Array | null> => {
+  const file = form.querySelector<HTMLInputElement>(`[name=${name}]`)!
+    .files?.[0];
+  return file ? new Uint8Array(await file.arrayBuffer()) : null;
+};
+
+const run = (machine: Intellivision) => {
+  loop?.stop();
+  detachMapper?.();
+  mapper = new InputMapper(machine.controllers, mapping);
+  detachMapper = mapper.attach(window);
+  loop = new MainLoop(() => {
+    if (output) machine.sampleRate = output.sampleRate;
+    mapper?.pollGamepads(navigator.getGamepads());
+    machine.runFrame();
+    output?.push(machine.samples);
+  }, machine.standard);
+  loop.onDraw = () => screen.draw(machine.stic.framebuffer);
+  loop.start();
+  return machine;
+};
+
+let system: Intellivision | null = null;
+
+const start = async () => {
+  const [exec, grom, cartridge, ecs] = await Promise.all([
+    readFile("exec"),
+    readFile("grom"),
+    readFile("cartridge"),
+    readFile("ecs"),
+  ]);
+  if (!exec || !grom) return;
+  const intellivoice = form.querySelector<HTMLInputElement>(
+    "[name=intellivoice]",
+  )!.checked;
+  const standard = form.querySelector<HTMLSelectElement>("[name=standard]")!
+    .value as VideoStandard;
+  system = run(
+    new Intellivision({exec, grom, cartridge, ecs, intellivoice, standard}),
+  );
+  const warnings = system.cartridge?.warnings ?? [];
+  if (warnings.length > 0) {
+    window.alert(`The cartridge may not work:\n${warnings.join("\n")}`);
+  }
+};
+
+form.querySelector("[name=reset]")!.addEventListener("click", () => {
+  system?.reset();
+});
+form.querySelector("[name=power]")!.addEventListener("click", () => {
+  if (system) system = run(system.powerCycle());
+});
+
+/** One save state per cartridge, going by its file name. */
+const stateSlot = () =>
+  form.querySelector<HTMLInputElement>("[name=cartridge]")!.files?.[0]?.name ??
+  "(no cartridge)";
+
+form.querySelector("[name=save]")!.addEventListener("click", async () => {
+  if (!system) return;
+  try {
+    await saveStateToStore(system, stateSlot());
+  } catch (error) {
+    window.alert(`Couldn't save state: ${(error as Error).message}`);
+  }
+});
+form.querySelector("[name=load]")!.addEventListener("click", async () => {
+  if (!system) return;
+  try {
+    if (!(await loadStateFromStore(system, stateSlot()))) {
+      window.alert("Nothing saved for this cartridge yet");
+    }
+  } catch (error) {
+    // Whatever was half-loaded is no good; start over rather than run it:
+    system = run(system.powerCycle());
+    window.alert(`Couldn't load state: ${(error as Error).message}`);
+  }
+});
+
+form.addEventListener("change", (event) => {
+  const target = event.target as HTMLInputElement | HTMLSelectElement;
+  switch (target.name) {
+    case "scaling": {
+      screen.scaling = target.value as Scaling;
+      fitScreen();
+      break;
+    }
+    default: {
+      // Different files, add-ons, or video standard: that's a new machine.
+      start().catch((error) => alert(error));
+      break;
+    }
+  }
+});
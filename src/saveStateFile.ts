@@ -0,0 +1,21 @@
+import fs from "fs";
+import {Machine} from "./Machine";
+
+/**
+ * Save states on disk, for running under Node (tests, tools). The browser
+ * keeps them in IndexedDB instead; see `saveStateStore`.
+ */
+
+export const saveStateToFile = async (
+  machine: Machine,
+  path: string,
+): Promise<void> => {
+  await fs.promises.writeFile(path, machine.saveState());
+};
+
+export const loadStateFromFile = async (
+  machine: Machine,
+  path: string,
+): Promise<void> => {
+  machine.loadState(new Uint8Array(await fs.promises.readFile(path)));
+};
@@ -0,0 +1,67 @@
+import {Machine} from "./Machine";
+
+/**
+ * Save states in the browser, kept in IndexedDB by name (slot). Under Node,
+ * use `saveStateFile` instead.
+ */
+
+const DB_NAME = "intv-web";
+const DB_VERSION = 1;
+const STORE = "save-states";
+
+const request = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const open = (indexedDB: IDBFactory): Promise<IDBDatabase> => {
+  const opening = indexedDB.open(DB_NAME, DB_VERSION);
+  opening.onupgradeneeded = () => {
+    opening.result.createObjectStore(STORE);
+  };
+  return request(opening);
+};
+
+const withStore = async <T>(
+  indexedDB: IDBFactory,
+  mode: IDBTransactionMode,
+  use: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await open(indexedDB);
+  try {
+    return await request(use(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export const saveStateToStore = async (
+  machine: Machine,
+  slot: string,
+  indexedDB: IDBFactory = window.indexedDB,
+): Promise<void> => {
+  const state = machine.saveState();
+  await withStore(indexedDB, "readwrite", (store) => store.put(state, slot));
+};
+
+/** Returns false (leaving `machine` alone) if nothing's saved in `slot`. */
+export const loadStateFromStore = async (
+  machine: Machine,
+  slot: string,
+  indexedDB: IDBFactory = window.indexedDB,
+): Promise<boolean> => {
+  const state: unknown = await withStore(indexedDB, "readonly", (store) =>
+    store.get(slot),
+  );
+  if (!(state instanceof Uint8Array)) return false;
+  machine.loadState(state);
+  return true;
+};
+
+export const deleteStateFromStore = async (
+  slot: string,
+  indexedDB: IDBFactory = window.indexedDB,
+): Promise<void> => {
+  await withStore(indexedDB, "readwrite", (store) => store.delete(slot));
+};
@@ -0,0 +1,19 @@
+import {GROM} from "./GROM";
+import {Intellivision, IntellivisionConfig} from "./Intellivision";
+
+/** Big-endian words, like `exec.bin`. */
+export const toBin = (words: number[]): Uint8Array =>
+  Uint8Array.from(words.flatMap((word) => [word >> 8, word & 0xff]));
+
+/**
+ * Builds Intellivisions whose EXEC is just `program` (starting at $1000), with
+ * a blank GROM.
+ */
+export const intellivisionFactory =
+  (program: number[]) =>
+  (config: Partial<IntellivisionConfig> = {}): Intellivision =>
+    new Intellivision({
+      exec: toBin(program),
+      grom: new Uint8Array(GROM.SIZE),
+      ...config,
+    });